@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react'
+import { hasKickedOff, OPPOSING_SIDES } from './oddsApi'
+import { formatSigned } from './oddsMath'
+import type { BetSide, MarketType, OddsGame } from './oddsApi'
+import { fetchActivityFeed, setFeedVisibility } from './feed'
+import type { FeedBet } from './feed'
+import type { FeedVisibility, LeagueRow } from './types'
+
+type ActivityFeedProps = {
+  userId: string
+  // null for the global pool
+  league: LeagueRow | null
+  canManage: boolean
+  // the odds on screen; only bets on these games can be tailed or faded
+  games: OddsGame[]
+  now: number
+  // changes whenever bets change elsewhere, to reload the feed
+  refreshKey: number | null
+  onTail: (game: OddsGame, market: MarketType, side: BetSide) => void
+  onLeagueChanged: () => void
+}
+
+function formatPick(bet: FeedBet): string {
+  if (bet.bet_type === 'PARLAY') return `Parlay (${bet.legs?.length ?? 0} legs)`
+  if (bet.market === 'h2h') return `${bet.team_name} ML`
+  if (bet.market === 'totals') return `${bet.team_name} ${bet.total_line}`
+  return `${bet.team_name} ${formatSigned(bet.spread_line ?? 0)}`
+}
+
+// Other players' bets in the current bankroll, newest first. A pending
+// straight bet on a game that's still open can be tailed (same side) or
+// faded (the other side), at the best price on the board now rather than
+// the price they got.
+function ActivityFeed({ userId, league, canManage, games, now, refreshKey, onTail, onLeagueChanged }: ActivityFeedProps) {
+  const [bets, setBets] = useState<FeedBet[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [feedError, setFeedError] = useState<string>('')
+  const [saving, setSaving] = useState<boolean>(false)
+
+  const leagueId = league?.id ?? null
+
+  // mounted once per bankroll, so loading starts out true
+  useEffect(() => {
+    fetchActivityFeed(userId, leagueId)
+      .then(setBets)
+      .catch((err: unknown) => setFeedError(err instanceof Error ? err.message : 'Failed to load activity'))
+      .finally(() => setLoading(false))
+  }, [userId, leagueId, refreshKey])
+
+  const handleVisibilityChange = async (visibility: FeedVisibility) => {
+    if (!league) return
+
+    setSaving(true)
+    setFeedError('')
+    try {
+      await setFeedVisibility(league.id, visibility)
+      setBets(await fetchActivityFeed(userId, league.id))
+      onLeagueChanged()
+    } catch (err: unknown) {
+      setFeedError(err instanceof Error ? err.message : 'Failed to update feed visibility')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // the game on screen a bet can still be copied onto, if any
+  const getOpenGame = (bet: FeedBet): OddsGame | null => {
+    if (bet.bet_type !== 'STRAIGHT' || bet.status !== 'PENDING' || !bet.market || !bet.side) return null
+    const game = games.find((g) => g.id === bet.game?.external_game_id)
+    return game && !hasKickedOff(game, now) ? game : null
+  }
+
+  const cellStyle = { padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)', textAlign: 'left' as const }
+  const headStyle = { ...cellStyle, borderBottom: '1px solid var(--color-border-medium)' }
+
+  return (
+    <div>
+      {league && (
+        <p style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)', margin: '0 0 0.5rem' }}>
+          {canManage ? (
+            <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+              Members see each other's bets
+              <select
+                value={league.feed_visibility}
+                onChange={(e) => handleVisibilityChange(e.target.value as FeedVisibility)}
+                disabled={saving}
+              >
+                <option value="IMMEDIATE">as soon as they're placed</option>
+                <option value="KICKOFF">from kickoff</option>
+              </select>
+            </label>
+          ) : league.feed_visibility === 'KICKOFF' ? (
+            "Bets show up here once their game kicks off."
+          ) : (
+            "Bets show up here as soon as they're placed."
+          )}
+        </p>
+      )}
+      {loading && <p>Loading activity...</p>}
+      {feedError && <p style={{ color: 'var(--color-error-text)' }}>{feedError}</p>}
+      {!loading && bets.length === 0 && !feedError && <p>No bets from other players yet.</p>}
+
+      {bets.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>Player</th>
+              <th style={headStyle}>Game</th>
+              <th style={headStyle}>Pick</th>
+              <th style={{ ...headStyle, textAlign: 'right' }}>Odds</th>
+              <th style={{ ...headStyle, textAlign: 'right' }}>Stake</th>
+              <th style={headStyle}>Status</th>
+              <th style={headStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {bets.map((bet) => {
+              const openGame = getOpenGame(bet)
+              return (
+                <tr key={bet.id}>
+                  <td style={cellStyle}>{bet.user?.display_name || bet.user?.username || 'Unknown'}</td>
+                  <td style={cellStyle}>
+                    {bet.game ? `${bet.game.away_team} @ ${bet.game.home_team}` : bet.bet_type === 'PARLAY' ? 'Multiple' : '—'}
+                  </td>
+                  <td style={cellStyle}>{formatPick(bet)}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{formatSigned(bet.odds_american)}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{Number(bet.stake).toFixed(2)}</td>
+                  <td style={cellStyle}>{bet.status}</td>
+                  <td style={cellStyle}>
+                    {openGame && bet.market && bet.side && (
+                      <div style={{ display: 'flex', gap: '0.25rem' }}>
+                        <button type="button" onClick={() => onTail(openGame, bet.market!, bet.side!)}>Tail</button>
+                        <button type="button" onClick={() => onTail(openGame, bet.market!, OPPOSING_SIDES[bet.side!])}>
+                          Fade
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+export default ActivityFeed
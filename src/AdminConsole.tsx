@@ -0,0 +1,551 @@
+import { useEffect, useState } from 'react'
+import {
+  adjustBalance,
+  archiveUser,
+  fetchAllUsers,
+  fetchAuditLog,
+  fetchStartedGames,
+  fetchUserBets,
+  linkUser,
+  purgeUser,
+  restoreUser,
+  setFinalScore,
+  setUserRole,
+  voidBet
+} from './admin'
+import type { AdminBet } from './admin'
+import { fetchMyLeagues } from './leagues'
+import { formatSigned } from './oddsMath'
+import { gradePendingBets } from './settlement'
+import type { AdminAuditRow, GameRow, LeagueMemberRow, UserRole, UserRow } from './types'
+
+type AdminConsoleProps = {
+  currentUserId: string
+  // balances, bets or users changed
+  onChanged: () => void
+}
+
+type Tab = 'users' | 'games' | 'audit'
+
+const ACTION_LABELS: Record<string, string> = {
+  SET_ROLE: 'Changed role',
+  LINK_USER: 'Linked sign-in',
+  ARCHIVE_USER: 'Archived user',
+  RESTORE_USER: 'Restored user',
+  PURGE_USER: 'Purged user',
+  // written before users were archived instead of deleted
+  DELETE_USER: 'Deleted user',
+  ADJUST_BALANCE: 'Adjusted balance',
+  VOID_BET: 'Voided bet',
+  GRADE_GAME: 'Graded game',
+  REGRADE_GAME: 'Re-graded game',
+  RECORD_SCORES: 'Recorded final scores'
+}
+
+const cellStyle = { padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)', textAlign: 'left' as const }
+const headStyle = { ...cellStyle, borderBottom: '1px solid var(--color-border-medium)' }
+const noteStyle = { fontSize: '0.85rem', color: 'var(--color-text-secondary)', margin: '0 0 0.5rem' }
+
+function describeBet(bet: AdminBet): string {
+  const game = bet.game ? `${bet.game.away_team} @ ${bet.game.home_team}: ` : ''
+  const line = bet.bet_type === 'PARLAY'
+    ? `Parlay (${bet.legs?.length ?? 0} legs)`
+    : bet.market === 'h2h'
+      ? `${bet.team_name} ML`
+      : bet.market === 'totals'
+        ? `${bet.team_name} ${bet.total_line}`
+        : `${bet.team_name} ${formatSigned(bet.spread_line ?? 0)}`
+  return `${game}${line} (${formatSigned(bet.odds_american)})`
+}
+
+function formatDetails(details: Record<string, unknown>): string {
+  return Object.entries(details)
+    .filter(([, value]) => value != null)
+    .map(([key, value]) => `${key.replace(/_/g, ' ')}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join(' · ')
+}
+
+// One user: their role, a manual balance adjustment, their recent bets (any
+// of which can be voided), and archiving, restoring or purging the account.
+// Mounted once per user.
+function UserAdmin({ user, isSelf, onChanged }: { user: UserRow; isSelf: boolean; onChanged: () => void }) {
+  const [bets, setBets] = useState<AdminBet[]>([])
+  const [memberships, setMemberships] = useState<LeagueMemberRow[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [busy, setBusy] = useState<boolean>(false)
+  const [adminError, setAdminError] = useState<string>('')
+  const [message, setMessage] = useState<string>('')
+  const [reason, setReason] = useState<string>('')
+  const [role, setRole] = useState<UserRole>(user.role)
+  const [bankroll, setBankroll] = useState<string>('')
+  const [amountInput, setAmountInput] = useState<string>('')
+  const [confirmUsername, setConfirmUsername] = useState<string>('')
+  const [linkEmail, setLinkEmail] = useState<string>('')
+
+  // mounted once per user, so loading starts out true
+  useEffect(() => {
+    Promise.all([fetchUserBets(user.id), fetchMyLeagues(user.id)])
+      .then(([userBets, userLeagues]) => {
+        setBets(userBets)
+        setMemberships(userLeagues)
+      })
+      .catch((err: unknown) => setAdminError(err instanceof Error ? err.message : 'Failed to load user'))
+      .finally(() => setLoading(false))
+  }, [user.id])
+
+  // Runs one admin action, then reloads what it may have changed.
+  const run = async (action: () => Promise<string>, fallback: string) => {
+    setBusy(true)
+    setAdminError('')
+    setMessage('')
+    try {
+      setMessage(await action())
+      setReason('')
+      onChanged()
+    } catch (err: unknown) {
+      setAdminError(err instanceof Error ? err.message : fallback)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSaveRole = () =>
+    run(async () => {
+      await setUserRole(user.id, role, reason)
+      return `${user.username} is now ${role === 'ADMIN' ? 'an admin' : 'a regular user'}.`
+    }, 'Failed to change role')
+
+  const handleAdjust = () => {
+    const amount = parseFloat(amountInput)
+    if (isNaN(amount) || amount === 0) {
+      setAdminError('Enter an amount to adjust by, negative to take money away.')
+      return
+    }
+    return run(async () => {
+      const balance = await adjustBalance(user.id, bankroll || null, amount, reason)
+      setAmountInput('')
+      return `Balance is now ${balance.toFixed(2)}.`
+    }, 'Failed to adjust balance')
+  }
+
+  const handleVoid = (bet: AdminBet) =>
+    run(async () => {
+      await voidBet(bet.id, reason)
+      setBets(await fetchUserBets(user.id))
+      return 'Bet voided.'
+    }, 'Failed to void bet')
+
+  const handleLink = () =>
+    run(async () => {
+      await linkUser(user.id, linkEmail, reason)
+      setLinkEmail('')
+      return `${user.username} is linked to ${linkEmail.trim()}.`
+    }, 'Failed to link account')
+
+  const handleArchive = () =>
+    run(async () => {
+      await archiveUser(user.id, reason)
+      return `${user.username} was archived.`
+    }, 'Failed to archive user')
+
+  const handleRestore = () =>
+    run(async () => {
+      await restoreUser(user.id, reason)
+      return `${user.username} was restored.`
+    }, 'Failed to restore user')
+
+  const handlePurge = () =>
+    run(async () => {
+      await purgeUser(user.id, confirmUsername, reason)
+      return `${user.username} and all their data were purged.`
+    }, 'Failed to purge user')
+
+  return (
+    <div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', marginBottom: '0.5rem' }}>
+        Reason
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Recorded in the audit log"
+          style={{ flex: 1 }}
+        />
+      </label>
+      {adminError && <p style={{ color: 'var(--color-error-text)' }}>{adminError}</p>}
+      {message && <p>{message}</p>}
+
+      <h4 style={{ margin: '0.5rem 0' }}>Role</h4>
+      {isSelf ? (
+        <p style={noteStyle}>You can't change your own role.</p>
+      ) : (
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <select value={role} onChange={(e) => setRole(e.target.value as UserRole)}>
+            <option value="USER">User</option>
+            <option value="ADMIN">Admin</option>
+          </select>
+          <button onClick={handleSaveRole} disabled={busy || role === user.role}>Save Role</button>
+        </div>
+      )}
+
+      <h4 style={{ margin: '0.5rem 0' }}>Adjust balance</h4>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+        <select value={bankroll} onChange={(e) => setBankroll(e.target.value)}>
+          <option value="">Global pool ({Number(user.current_balance).toFixed(2)})</option>
+          {memberships.map((m) => (
+            <option key={m.league_id} value={m.league_id}>
+              {m.league?.name ?? 'League'} ({Number(m.current_balance).toFixed(2)})
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          step="0.01"
+          placeholder="Amount"
+          value={amountInput}
+          onChange={(e) => setAmountInput(e.target.value)}
+          style={{ width: '7rem' }}
+        />
+        <button onClick={handleAdjust} disabled={busy || !reason.trim()}>Apply</button>
+      </div>
+
+      <h4 style={{ margin: '0.5rem 0' }}>Bets</h4>
+      <p style={noteStyle}>
+        Voiding gives back the stake less anything the bet already paid, as if it had never been placed.
+      </p>
+      {loading && <p>Loading bets...</p>}
+      {!loading && bets.length === 0 && <p>No bets.</p>}
+      {bets.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>Placed</th>
+              <th style={headStyle}>Bankroll</th>
+              <th style={headStyle}>Bet</th>
+              <th style={{ ...headStyle, textAlign: 'right' }}>Stake</th>
+              <th style={headStyle}>Status</th>
+              <th style={headStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {bets.map((bet) => (
+              <tr key={bet.id}>
+                <td style={cellStyle}>{new Date(bet.placed_at).toLocaleString()}</td>
+                <td style={cellStyle}>{bet.league?.name ?? 'Global pool'}</td>
+                <td style={cellStyle}>{describeBet(bet)}</td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{Number(bet.stake).toFixed(2)}</td>
+                <td style={cellStyle}>{bet.status.replace('_', ' ')}</td>
+                <td style={cellStyle}>
+                  {bet.status !== 'CANCELLED' && (
+                    <button onClick={() => handleVoid(bet)} disabled={busy || !reason.trim()}>Void</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {user.auth_user_id == null && (
+        <>
+          <h4 style={{ margin: '0.5rem 0' }}>Sign-in</h4>
+          <p style={noteStyle}>
+            {user.username} is from before sign-in. Once they sign up with their email, link it here to give them
+            this account back.
+          </p>
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+            <input type="email" value={linkEmail} onChange={(e) => setLinkEmail(e.target.value)} placeholder="Email" />
+            <button onClick={handleLink} disabled={busy || !linkEmail.trim()}>Link</button>
+          </div>
+        </>
+      )}
+
+      {!isSelf && (
+        <>
+          <h4 style={{ margin: '0.5rem 0' }}>Account</h4>
+          {user.archived_at == null ? (
+            <>
+              <p style={noteStyle}>
+                Archiving takes {user.username} off the leaderboards and signs them out for good, keeping their bets
+                and ledger. It can be undone.
+              </p>
+              <button onClick={handleArchive} disabled={busy}>Archive {user.username}</button>
+            </>
+          ) : (
+            <>
+              <p style={noteStyle}>Archived {new Date(user.archived_at).toLocaleString()}.</p>
+              <button onClick={handleRestore} disabled={busy}>Restore {user.username}</button>
+              <p style={{ ...noteStyle, marginTop: '0.75rem' }}>
+                Purging deletes {user.username}'s bets, ledger, comments and league memberships for good, for data
+                removal requests. Type their username to confirm.
+              </p>
+              <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <input
+                  type="text"
+                  value={confirmUsername}
+                  onChange={(e) => setConfirmUsername(e.target.value)}
+                  placeholder={user.username}
+                />
+                <button
+                  onClick={handlePurge}
+                  disabled={busy || confirmUsername !== user.username || !reason.trim()}
+                  style={{ background: 'var(--color-danger)', color: 'var(--color-white)' }}
+                >
+                  Purge
+                </button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+// Games that have kicked off, each of which can be given a final score by
+// hand. Re-grading a final game reopens its bets and grades them again.
+function GameAdmin({ onChanged }: { onChanged: () => void }) {
+  const [games, setGames] = useState<GameRow[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [busyGameId, setBusyGameId] = useState<string | null>(null)
+  const [adminError, setAdminError] = useState<string>('')
+  const [message, setMessage] = useState<string>('')
+  const [reason, setReason] = useState<string>('')
+  // score inputs by game id, as [away, home]
+  const [scores, setScores] = useState<Record<string, [string, string]>>({})
+
+  // mounted once per visit to the tab, so loading starts out true
+  useEffect(() => {
+    fetchStartedGames()
+      .then(setGames)
+      .catch((err: unknown) => setAdminError(err instanceof Error ? err.message : 'Failed to load games'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const getScoreInputs = (game: GameRow): [string, string] =>
+    scores[game.id] ?? [game.away_score?.toString() ?? '', game.home_score?.toString() ?? '']
+
+  const setScoreInput = (game: GameRow, index: 0 | 1, value: string) => {
+    const next = [...getScoreInputs(game)] as [string, string]
+    next[index] = value
+    setScores({ ...scores, [game.id]: next })
+  }
+
+  const handleSetScore = async (game: GameRow) => {
+    const [away, home] = getScoreInputs(game).map((s) => parseInt(s, 10))
+    if (isNaN(away) || isNaN(home) || away < 0 || home < 0) {
+      setAdminError('Enter both scores.')
+      return
+    }
+
+    setBusyGameId(game.id)
+    setAdminError('')
+    setMessage('')
+    try {
+      const reopened = await setFinalScore(game.id, home, away, reason)
+      // admins grade everyone's bets
+      const settled = await gradePendingBets(null)
+      setMessage(
+        `${game.away_team} ${away}, ${game.home_team} ${home}.` +
+          (reopened > 0 ? ` Reopened ${reopened} bet${reopened === 1 ? '' : 's'}.` : '') +
+          ` Graded ${settled} bet${settled === 1 ? '' : 's'}.`
+      )
+      setReason('')
+      setGames(await fetchStartedGames())
+      onChanged()
+    } catch (err: unknown) {
+      setAdminError(err instanceof Error ? err.message : 'Failed to grade game')
+    } finally {
+      setBusyGameId(null)
+    }
+  }
+
+  return (
+    <div>
+      <p style={noteStyle}>
+        Scores normally come from the scores feed. Setting one here overrides it; on a game that's already final,
+        its graded bets are reopened and graded again against the new score.
+      </p>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', marginBottom: '0.5rem' }}>
+        Reason
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Recorded in the audit log"
+          style={{ flex: 1 }}
+        />
+      </label>
+      {adminError && <p style={{ color: 'var(--color-error-text)' }}>{adminError}</p>}
+      {message && <p>{message}</p>}
+      {loading && <p>Loading games...</p>}
+      {!loading && games.length === 0 && <p>No games have kicked off.</p>}
+      {games.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>Kickoff</th>
+              <th style={headStyle}>Game</th>
+              <th style={headStyle}>Score</th>
+              <th style={headStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {games.map((game) => {
+              const [away, home] = getScoreInputs(game)
+              return (
+                <tr key={game.id}>
+                  <td style={cellStyle}>{new Date(game.kickoff_at).toLocaleString()}</td>
+                  <td style={cellStyle}>
+                    {game.away_team} @ {game.home_team}
+                    {game.completed && <span style={{ color: 'var(--color-text-secondary)' }}> · Final</span>}
+                  </td>
+                  <td style={cellStyle}>
+                    <input
+                      type="number"
+                      min="0"
+                      value={away}
+                      onChange={(e) => setScoreInput(game, 0, e.target.value)}
+                      style={{ width: '3.5rem' }}
+                      aria-label={`${game.away_team} score`}
+                    />
+                    {' – '}
+                    <input
+                      type="number"
+                      min="0"
+                      value={home}
+                      onChange={(e) => setScoreInput(game, 1, e.target.value)}
+                      style={{ width: '3.5rem' }}
+                      aria-label={`${game.home_team} score`}
+                    />
+                  </td>
+                  <td style={cellStyle}>
+                    <button onClick={() => handleSetScore(game)} disabled={busyGameId != null}>
+                      {busyGameId === game.id ? 'Grading...' : game.completed ? 'Re-grade' : 'Grade'}
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function AuditLog() {
+  const [entries, setEntries] = useState<AdminAuditRow[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [auditError, setAuditError] = useState<string>('')
+
+  // mounted once per visit to the tab, so loading starts out true
+  useEffect(() => {
+    fetchAuditLog()
+      .then(setEntries)
+      .catch((err: unknown) => setAuditError(err instanceof Error ? err.message : 'Failed to load audit log'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  return (
+    <div>
+      {loading && <p>Loading audit log...</p>}
+      {auditError && <p style={{ color: 'var(--color-error-text)' }}>{auditError}</p>}
+      {!loading && entries.length === 0 && !auditError && <p>No admin actions yet.</p>}
+      {entries.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>When</th>
+              <th style={headStyle}>Admin</th>
+              <th style={headStyle}>Action</th>
+              <th style={headStyle}>User</th>
+              <th style={headStyle}>Reason</th>
+              <th style={headStyle}>Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.id}>
+                <td style={cellStyle}>{new Date(entry.created_at).toLocaleString()}</td>
+                <td style={cellStyle}>{entry.admin?.username ?? '—'}</td>
+                <td style={cellStyle}>{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                <td style={cellStyle}>{entry.target_user?.username ?? '—'}</td>
+                <td style={cellStyle}>{entry.reason ?? '—'}</td>
+                <td style={{ ...cellStyle, fontSize: '0.8rem' }}>{formatDetails(entry.details)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+// Admin-only tools: users (roles, balance adjustments, voiding bets,
+// archiving), hand grading of games, and the log of every admin action.
+// Every action goes through an admin_ database function that checks the
+// role and writes the audit log.
+function AdminConsole({ currentUserId, onChanged }: AdminConsoleProps) {
+  const [tab, setTab] = useState<Tab>('users')
+  const [users, setUsers] = useState<UserRow[]>([])
+  const [usersError, setUsersError] = useState<string>('')
+  const [selectedUserId, setSelectedUserId] = useState<string>('')
+
+  // the leaderboard's list leaves archived users out, so the console keeps its own
+  useEffect(() => {
+    fetchAllUsers()
+      .then(setUsers)
+      .catch((err: unknown) => setUsersError(err instanceof Error ? err.message : 'Failed to load users'))
+  }, [])
+
+  const handleUserChanged = async () => {
+    onChanged()
+    try {
+      setUsers(await fetchAllUsers())
+    } catch (err: unknown) {
+      setUsersError(err instanceof Error ? err.message : 'Failed to load users')
+    }
+  }
+
+  const selectedUser = users.find((u) => u.id === selectedUserId) ?? null
+
+  return (
+    <div style={{ textAlign: 'left' }}>
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' }}>
+        <button onClick={() => setTab('users')} style={{ fontWeight: tab === 'users' ? 'bold' : 'normal' }}>Users</button>
+        <button onClick={() => setTab('games')} style={{ fontWeight: tab === 'games' ? 'bold' : 'normal' }}>Games</button>
+        <button onClick={() => setTab('audit')} style={{ fontWeight: tab === 'audit' ? 'bold' : 'normal' }}>Audit Log</button>
+      </div>
+
+      {tab === 'users' && (
+        <>
+          {usersError && <p style={{ color: 'var(--color-error-text)' }}>{usersError}</p>}
+          <select value={selectedUserId} onChange={(e) => setSelectedUserId(e.target.value)} style={{ marginBottom: '0.5rem' }}>
+            <option value="">Choose a user...</option>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.display_name || u.username}
+                {u.role === 'ADMIN' ? ' (admin)' : ''}
+                {u.archived_at ? ' (archived)' : ''}
+                {u.auth_user_id ? '' : ' (not linked)'}
+              </option>
+            ))}
+          </select>
+          {selectedUser && (
+            <UserAdmin
+              key={selectedUser.id}
+              user={selectedUser}
+              isSelf={selectedUser.id === currentUserId}
+              onChanged={handleUserChanged}
+            />
+          )}
+        </>
+      )}
+      {tab === 'games' && <GameAdmin onChanged={onChanged} />}
+      {tab === 'audit' && <AuditLog />}
+    </div>
+  )
+}
+
+export default AdminConsole
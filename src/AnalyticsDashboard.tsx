@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import {
+  getCumulativeProfit,
+  getSettledBets,
+  splitByFavorite,
+  splitByHomeAway,
+  splitBySpreadSize,
+  splitByTeam,
+  splitByWeek,
+  summarizeBets
+} from './analytics'
+import type { PerformanceSplit, PerformanceSummary } from './analytics'
+import { getBetSport } from './bets'
+import { formatAmount } from './oddsMath'
+import { SPORTS } from './sports'
+import type { SportKey } from './sports'
+import type { BetRow } from './types'
+import LineChart from './LineChart'
+import type { ChartSeries } from './LineChart'
+
+type AnalyticsDashboardProps = {
+  bets: BetRow[]
+  startingBalance: number
+}
+
+function formatPercent(n: number | null): string {
+  return n == null ? '—' : `${(n * 100).toFixed(1)}%`
+}
+
+function formatRecord(s: PerformanceSummary): string {
+  const record = `${s.won}-${s.lost}-${s.pushed}`
+  return s.cashedOut > 0 ? `${record} (${s.cashedOut} cashed out)` : record
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+function AnalyticsDashboard({ bets, startingBalance }: AnalyticsDashboardProps) {
+  const [sportFilter, setSportFilter] = useState<SportKey | null>(null)
+
+  // a unit is 1% of the starting bankroll
+  const unitSize = startingBalance / 100
+  const settled = getSettledBets(bets).filter((b) => !sportFilter || getBetSport(b) === sportFilter)
+  const summary = summarizeBets(settled, unitSize)
+  const cumulative = getCumulativeProfit(settled)
+
+  const balanceSeries: ChartSeries[] = [
+    {
+      label: 'Actual',
+      color: 'var(--color-chart-first)',
+      points: cumulative.map((p) => ({ x: p.settledAt, y: startingBalance + p.profit }))
+    },
+    {
+      label: 'Fair (no vig)',
+      color: 'var(--color-chart-second)',
+      points: cumulative.map((p) => ({ x: p.settledAt, y: startingBalance + p.fairProfit }))
+    }
+  ]
+
+  const splits: { title: string; rows: PerformanceSplit[] }[] = [
+    { title: 'Favorite vs underdog', rows: splitByFavorite(settled, unitSize) },
+    { title: 'Home vs away', rows: splitByHomeAway(settled, unitSize) },
+    { title: 'Spread size', rows: splitBySpreadSize(settled, unitSize) },
+    { title: 'Team', rows: splitByTeam(settled, unitSize) },
+    { title: 'Week', rows: splitByWeek(settled, unitSize) }
+  ]
+
+  const cellStyle = { padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)' }
+  const headStyle = { ...cellStyle, borderBottom: '1px solid var(--color-border-medium)' }
+
+  const stats = [
+    { label: 'Record', value: formatRecord(summary) },
+    { label: 'Win rate', value: formatPercent(summary.winRate) },
+    { label: 'ROI', value: formatPercent(summary.roi) },
+    { label: 'Profit', value: formatAmount(summary.profit) },
+    { label: 'Units', value: formatAmount(summary.units) },
+    { label: 'Fair profit', value: formatAmount(summary.fairProfit) }
+  ]
+
+  return (
+    <div style={{ textAlign: 'left' }}>
+      <select
+        value={sportFilter ?? ''}
+        onChange={(e) => setSportFilter((e.target.value || null) as SportKey | null)}
+        style={{ marginBottom: '0.5rem' }}
+      >
+        <option value="">All sports</option>
+        {SPORTS.map((s) => (
+          <option key={s.key} value={s.key}>{s.label}</option>
+        ))}
+      </select>
+
+      {settled.length === 0 ? (
+        <p>No settled bets yet.</p>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+            {stats.map((stat) => (
+              <div key={stat.label}>
+                <div style={{ fontSize: '0.8rem', color: 'var(--color-text-secondary)' }}>{stat.label}</div>
+                <div style={{ fontWeight: 'bold' }}>{stat.value}</div>
+              </div>
+            ))}
+          </div>
+          <p style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)', margin: '0 0 0.5rem' }}>
+            A unit is 1% of the starting bankroll ({unitSize.toFixed(2)}).
+          </p>
+
+          <h3 style={{ margin: '0.5rem 0' }}>Balance</h3>
+          <LineChart series={balanceSeries} formatX={formatTime} formatY={(y) => y.toFixed(0)} />
+
+          {splits.filter((split) => split.rows.length > 0).map((split) => (
+            <div key={split.title}>
+              <h3 style={{ margin: '1rem 0 0.5rem' }}>{split.title}</h3>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...headStyle, textAlign: 'left' }}></th>
+                    <th style={{ ...headStyle, textAlign: 'right' }}>Record</th>
+                    <th style={{ ...headStyle, textAlign: 'right' }}>Win rate</th>
+                    <th style={{ ...headStyle, textAlign: 'right' }}>Staked</th>
+                    <th style={{ ...headStyle, textAlign: 'right' }}>Profit</th>
+                    <th style={{ ...headStyle, textAlign: 'right' }}>ROI</th>
+                    <th style={{ ...headStyle, textAlign: 'right' }}>Units</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {split.rows.map((row) => (
+                    <tr key={row.key}>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>{row.label}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{formatRecord(row)}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{formatPercent(row.winRate)}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{row.staked.toFixed(2)}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{formatAmount(row.profit)}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{formatPercent(row.roi)}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{formatAmount(row.units)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default AnalyticsDashboard
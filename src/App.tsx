@@ -1,88 +1,135 @@
-import { useEffect, useState } from 'react'
+import { Fragment, useEffect, useState } from 'react'
 import type { FormEvent, MouseEvent } from 'react'
+import type { User } from '@supabase/supabase-js'
 import { supabase } from './supabaseClient'
-import { fetchNflSpreadsDraftKings } from './oddsApi'
-import type { NflSpreadGame, SpreadSide } from './oddsApi'
-import { FiInfo, FiX } from 'react-icons/fi'
-
-type UserRow = {
-  id: string
-  username: string
-  display_name: string | null
-  starting_balance: number
-  current_balance: number
+import { getBestOutcome, getBookOutcomes, getOpposingOutcome, hasKickedOff } from './oddsApi'
+import type { BetSide, MarketOutcome, MarketType, OddsGame } from './oddsApi'
+import { GAME_SCORE_FIELDS, gradePendingBets, syncFinalScores } from './settlement'
+import { backfillGameWeeks, findGameInDb } from './games'
+import { getMarketLabel, getSport, groupBySlate, NFL, SPORTS } from './sports'
+import type { SportKey } from './sports'
+import { captureClosingLines, fetchClvAverages, recordOddsSnapshot } from './oddsHistory'
+import { getCacheAgeSeconds, loadCachedOdds } from './oddsCache'
+import type { OddsLoad } from './oddsCache'
+import { createLeague, fetchLeagueStandings, fetchMyLeagues, fetchSportStandings, joinLeague } from './leagues'
+import { getBetKickoff, getBetSport } from './bets'
+import { useRealtime } from './useRealtime'
+import type { RealtimeStatus, RealtimeTable } from './useRealtime'
+import { canCancelBet, cancelBet, cashOutBet, fetchCashOutQuote } from './cashOut'
+import { getKellyStake, getStakeWarnings, getUnitSuggestions, saveBankrollSettings } from './bankroll'
+import type { BankrollSettings } from './bankroll'
+import LeaguePanel from './LeaguePanel'
+import BankrollPanel from './BankrollPanel'
+import Ledger from './Ledger'
+import ImportPanel from './ImportPanel'
+import AnalyticsDashboard from './AnalyticsDashboard'
+import ActivityFeed from './ActivityFeed'
+import AdminConsole from './AdminConsole'
+import GameDetail from './GameDetail'
+import { americanToDecimal, combineAmericanOdds, combineDecimalOdds, formatSigned } from './oddsMath'
+import { DEFAULT_DEVIG_METHOD, DEVIG_METHODS, devigProbabilities, getFairOdds } from './fairOdds'
+import type { DevigMethod } from './fairOdds'
+import type { BetInsert, BetRow, LeagueMemberRow, ParlayLegInsert, UserClvRow, UserRow, UserSportStatsRow } from './types'
+import { FiInfo } from 'react-icons/fi'
+
+type SelectedBet = {
+  game: OddsGame
+  outcome: MarketOutcome
 }
 
-type TransactionInsert = {
-  user_id: string
-  type: string
-  amount: number
-  balance_after: number
-  bet_id?: string | null
+const REALTIME_LABELS: Record<RealtimeStatus, string> = {
+  connecting: 'Connecting...',
+  live: '● Live',
+  reconnecting: 'Reconnecting...',
+  offline: 'Offline: updates paused'
 }
 
-type GameInfo = {
-  home_team: string
-  away_team: string
+// The selection columns shared by a straight bet and a parlay leg. The
+// fair price comes from the same book's price on the other side, when it
+// has one.
+function getSelectionFields({ game, outcome }: SelectedBet, devigMethod: DevigMethod) {
+  const opposing = getOpposingOutcome(game, outcome)
+  return {
+    market: outcome.market,
+    side: outcome.side,
+    team_name: outcome.name,
+    spread_line: outcome.market === 'spreads' ? outcome.point : null,
+    total_line: outcome.market === 'totals' ? outcome.point : null,
+    odds_american: outcome.price,
+    bookmaker: outcome.bookmaker,
+    opposing_odds_american: opposing?.price ?? null,
+    fair_odds_american: opposing ? getFairOdds(outcome.price, opposing.price, devigMethod) : null,
+    devig_method: opposing ? devigMethod : null
+  }
 }
 
-type GameRow = {
-  id: string
-  season: number
-  week: number
-  home_team: string
-  away_team: string
-  kickoff_at: string
-  external_game_id: string | null
+// Closing line value: points beaten on spreads and totals, implied
+// probability beaten on every market.
+function formatClv(clvPoints: number | null, clvProb: number | null): string {
+  if (clvProb == null) return '—'
+  const prob = `${clvProb > 0 ? '+' : ''}${(clvProb * 100).toFixed(1)}%`
+  return clvPoints != null ? `${formatSigned(Number(clvPoints.toFixed(1)))} pts · ${prob}` : prob
 }
 
-type BetRow = {
-  id: string
-  user_id: string
-  game_id: string
-  side: 'HOME' | 'AWAY'
-  team_name: string
-  spread_line: number
-  odds_american: number
-  stake: number
-  status: 'PENDING' | 'WON' | 'LOST' | 'PUSH' | string
-  placed_at: string
-  settled_at: string | null
-  payout: number | null
-  profit: number | null
-  fair_profit: number | null
-  fair_payout: number | null
-  game: GameInfo | null
+function formatAge(seconds: number): string {
+  if (seconds < 60) return 'just now'
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`
+  return `${Math.floor(seconds / 3600)}h ago`
 }
 
-type BetInsert = {
-  user_id: string
-  game_id: string
-  side: 'HOME' | 'AWAY'
-  team_name: string
-  spread_line: number
-  odds_american: number
-  stake: number
+function formatOutcome(outcome: MarketOutcome): string {
+  if (outcome.market === 'h2h') return `ML ${formatSigned(outcome.price)}`
+  if (outcome.market === 'totals') return `${outcome.name === 'Over' ? 'O' : 'U'} ${outcome.point} (${formatSigned(outcome.price)})`
+  return `${formatSigned(outcome.point ?? 0)} (${formatSigned(outcome.price)})`
 }
 
-type SelectedBet = {
-  game: NflSpreadGame
-  side: 'HOME' | 'AWAY'
-  spread: SpreadSide
+function formatBetLine(bet: BetRow): string {
+  if (bet.bet_type === 'PARLAY') return `${bet.legs?.length ?? 0} legs`
+  if (bet.market === 'h2h') return 'ML'
+  if (bet.market === 'totals') return `${bet.side === 'OVER' ? 'O' : 'U'} ${bet.total_line}`
+  return formatSigned(bet.spread_line ?? 0)
 }
 
-type SettleResult = 'WON' | 'LOST' | 'PUSH'
+function getBetExplanation(bet: BetRow): string {
+  if (bet.bet_type === 'PARLAY') return getParlayExplanation(bet)
+  if (!bet.game) return ''
+  if (bet.market === 'h2h') return getMoneylineExplanation(bet)
+  if (bet.market === 'totals') return getTotalExplanation(bet)
+  return getSpreadExplanation(bet)
+}
 
-function calculateProfit(stake: number, odds: number): number {
-  if (odds > 0) {
-    return stake * (odds / 100)
-  } else {
-    return stake * (100 / Math.abs(odds))
+function getParlayExplanation(bet: BetRow): string {
+  const legs = (bet.legs || []).map((leg) => {
+    const game = leg.game ? `${leg.game.away_team} @ ${leg.game.home_team}` : 'Unknown game'
+    const line = leg.market === 'spreads'
+      ? ` ${formatSigned(leg.spread_line ?? 0)}`
+      : leg.market === 'totals' ? ` ${leg.total_line}` : ' ML'
+    return `${game}: ${leg.team_name}${line} (${formatSigned(leg.odds_american)}) ${leg.status}`
+  })
+  return `Every leg must win. A losing leg loses the parlay; a pushed leg drops out and the payout is recalculated from the rest. ${legs.join(' · ')}`
+}
+
+function getMoneylineExplanation(bet: BetRow): string {
+  if (!bet.game) return ''
+  const betTeam = bet.side === 'HOME' ? bet.game.home_team : bet.game.away_team
+  const oppTeam = bet.side === 'HOME' ? bet.game.away_team : bet.game.home_team
+  const tie = getSport(bet.game.sport).allowsTies ? ' If the game ends tied, it is a PUSH.' : ''
+  return `You bet ${betTeam} to win outright. If ${betTeam} win, the bet is WON. If ${oppTeam} win, it is LOST.${tie}`
+}
+
+function getTotalExplanation(bet: BetRow): string {
+  if (!bet.game || bet.total_line == null) return ''
+  const line = bet.total_line
+  const direction = bet.side === 'OVER' ? 'over' : 'under'
+  const unit = getSport(bet.game.sport).scoreUnit
+  if (line % 1 !== 0) {
+    return `You bet the ${direction} ${line}. If the teams combine for ${bet.side === 'OVER' ? `${Math.ceil(line)} or more` : `${Math.floor(line)} or fewer`} ${unit}, the bet is WON. Otherwise it is LOST.`
   }
+  return `You bet the ${direction} ${line}. If the teams combine for ${bet.side === 'OVER' ? 'more' : 'fewer'} than ${line} ${unit}, the bet is WON. If they score exactly ${line}, it is a PUSH. Otherwise it is LOST.`
 }
 
 function getSpreadExplanation(bet: BetRow): string {
-  if (!bet.game) return ''
+  if (!bet.game || bet.spread_line == null) return ''
   const home = bet.game.home_team
   const away = bet.game.away_team
   const line = bet.spread_line
@@ -90,60 +137,102 @@ function getSpreadExplanation(bet: BetRow): string {
   const lineStr = line > 0 ? `+${line}` : `${line}`
   const betTeam = bet.side === 'HOME' ? home : away
   const oppTeam = bet.side === 'HOME' ? away : home
+  const unit = getSport(bet.game.sport).scoreUnit
 
   if (line === 0) {
-    return `You bet ${betTeam} (pick'em). If ${betTeam} win, select WON. If ${oppTeam} win, select LOST. If the game ends tied, select PUSH.`
+    return `You bet ${betTeam} (pick'em). If ${betTeam} win, the bet is WON. If ${oppTeam} win, it is LOST. If the game ends tied, it is a PUSH.`
   }
 
   if (line < 0) {
     const hasHook = absLine % 1 !== 0
     if (hasHook) {
       const needed = Math.floor(absLine) + 1
-      return `You bet ${betTeam} ${lineStr}. If ${betTeam} win by ${needed} or more points, select WON. If ${oppTeam} win or ${betTeam} win by ${needed - 1} or fewer, select LOST.`
+      return `You bet ${betTeam} ${lineStr}. If ${betTeam} win by ${needed} or more ${unit}, the bet is WON. If ${oppTeam} win or ${betTeam} win by ${needed - 1} or fewer, it is LOST.`
     } else {
-      return `You bet ${betTeam} ${lineStr}. If ${betTeam} win by more than ${absLine} points, select WON. If they win by exactly ${absLine}, select PUSH. If they win by fewer than ${absLine} points or lose, select LOST.`
+      return `You bet ${betTeam} ${lineStr}. If ${betTeam} win by more than ${absLine} ${unit}, the bet is WON. If they win by exactly ${absLine}, it is a PUSH. If they win by fewer than ${absLine} ${unit} or lose, it is LOST.`
     }
   } else {
     const hasHook = absLine % 1 !== 0
     if (hasHook) {
       const maxLose = Math.floor(absLine)
       const bust = maxLose + 1
-      return `You bet ${betTeam} ${lineStr}. If ${betTeam} win or lose by ${maxLose} points or fewer, select WON. If they lose by ${bust} or more, select LOST.`
+      return `You bet ${betTeam} ${lineStr}. If ${betTeam} win or lose by ${maxLose} ${unit} or fewer, the bet is WON. If they lose by ${bust} or more, it is LOST.`
     } else {
-      return `You bet ${betTeam} ${lineStr}. If ${betTeam} win or lose by fewer than ${absLine} points, select WON. If they lose by exactly ${absLine}, select PUSH. If they lose by more than ${absLine}, select LOST.`
+      return `You bet ${betTeam} ${lineStr}. If ${betTeam} win or lose by fewer than ${absLine} ${unit}, the bet is WON. If they lose by exactly ${absLine}, it is a PUSH. If they lose by more than ${absLine}, it is LOST.`
     }
   }
 }
 
+function getFinalScore(bet: BetRow): string {
+  if (!bet.game || !bet.game.completed) return ''
+  return `${bet.game.away_team} ${bet.game.away_score} @ ${bet.game.home_team} ${bet.game.home_score}`
+}
+
 function App() {
   const [currentUser, setCurrentUser] = useState<UserRow | null>(null)
   const [users, setUsers] = useState<UserRow[]>([])
+  const [myLeagues, setMyLeagues] = useState<LeagueMemberRow[]>([])
+  const [activeLeagueId, setActiveLeagueId] = useState<string | null>(null)
+  const [standings, setStandings] = useState<LeagueMemberRow[]>([])
+  const [clvAverages, setClvAverages] = useState<UserClvRow[]>([])
+  const [detailGame, setDetailGame] = useState<OddsGame | null>(null)
   const [loadingUser, setLoadingUser] = useState<boolean>(false)
   const [error, setError] = useState<string>('')
 
-  const [games, setGames] = useState<NflSpreadGame[]>([])
+  const [sportKey, setSportKey] = useState<SportKey>(NFL)
+  const [games, setGames] = useState<OddsGame[]>([])
   const [loadingOdds, setLoadingOdds] = useState<boolean>(false)
   const [oddsError, setOddsError] = useState<string>('')
+  const [oddsMeta, setOddsMeta] = useState<Omit<OddsLoad, 'games'> | null>(null)
+  const [now, setNow] = useState<number>(() => Date.now())
 
   const [selectedBet, setSelectedBet] = useState<SelectedBet | null>(null)
   const [stakeInput, setStakeInput] = useState<string>('')
+  // the user's own chance of the slip winning, in percent, for Kelly sizing
+  const [winEstimateInput, setWinEstimateInput] = useState<string>('')
+  const [showBankrollRules, setShowBankrollRules] = useState<boolean>(false)
   const [betError, setBetError] = useState<string>('')
   const [placingBet, setPlacingBet] = useState<boolean>(false)
+  const [parlayMode, setParlayMode] = useState<boolean>(false)
+  const [parlayLegs, setParlayLegs] = useState<SelectedBet[]>([])
 
   const [myBets, setMyBets] = useState<BetRow[]>([])
   const [settlingBetId, setSettlingBetId] = useState<string | null>(null)
+  // null amount: the bet has no offer right now
+  const [cashOutOffer, setCashOutOffer] = useState<{ betId: string; amount: number | null } | null>(null)
+  const [syncingScores, setSyncingScores] = useState<boolean>(false)
+  const [scoresMessage, setScoresMessage] = useState<string>('')
+  const [lastGradedAt, setLastGradedAt] = useState<number | null>(null)
+  // bumped when anyone's bets change, to reload the stats built from them
+  const [betsChangedAt, setBetsChangedAt] = useState<number | null>(null)
   const [showFairBalance, setShowFairBalance] = useState<boolean>(false)
+  const [devigMethod, setDevigMethod] = useState<DevigMethod>(
+    () => (localStorage.getItem('devigMethod') as DevigMethod | null) ?? DEFAULT_DEVIG_METHOD
+  )
   const [showLeaderboard, setShowLeaderboard] = useState<boolean>(false)
+  const [leaderboardSport, setLeaderboardSport] = useState<SportKey | null>(null)
+  const [sportStats, setSportStats] = useState<UserSportStatsRow[]>([])
   const [showPastBets, setShowPastBets] = useState<boolean>(false)
+  const [showLedger, setShowLedger] = useState<boolean>(false)
+  const [showAnalytics, setShowAnalytics] = useState<boolean>(false)
+  const [showActivity, setShowActivity] = useState<boolean>(false)
+  const [showAdmin, setShowAdmin] = useState<boolean>(false)
 
   // Modal state
   const [showLoginModal, setShowLoginModal] = useState<boolean>(false)
   const [showSignupModal, setShowSignupModal] = useState<boolean>(false)
-  const [loginUsername, setLoginUsername] = useState<string>('')
+  const [loginEmail, setLoginEmail] = useState<string>('')
+  const [loginPassword, setLoginPassword] = useState<string>('')
   const [signupUsername, setSignupUsername] = useState<string>('')
-  const [deleteConfirmUser, setDeleteConfirmUser] = useState<UserRow | null>(null)
+  const [signupEmail, setSignupEmail] = useState<string>('')
+  const [signupPassword, setSignupPassword] = useState<string>('')
+  const [authMessage, setAuthMessage] = useState<string>('')
   const [infoForBetId, setInfoForBetId] = useState<string | null>(null)
 
+  const activeMembership = myLeagues.find((m) => m.league_id === activeLeagueId) ?? null
+  const activeBalance = activeLeagueId ? activeMembership?.current_balance ?? null : currentUser?.current_balance ?? null
+  const activeStartingBalance = activeLeagueId ? activeMembership?.starting_balance ?? null : currentUser?.starting_balance ?? null
+
   const openInfoModal = (e: MouseEvent, _content: string, betId?: string) => {
     // compute a position in case we ever use it, but primary behavior is to mark the bet id
     const target = e.currentTarget as HTMLElement
@@ -162,9 +251,11 @@ function App() {
   }
 
   const fetchUsers = async () => {
+    // archived users keep their history but leave the leaderboard
     const { data, error } = await supabase
       .from('users')
       .select('*')
+      .is('archived_at', null)
       .order('current_balance', { ascending: false })
 
     if (error) {
@@ -175,12 +266,42 @@ function App() {
     setUsers((data as UserRow[]) || [])
   }
 
-  const fetchMyBets = async (userId: string) => {
+  const refreshCurrentUser = async (userId: string) => {
     const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .single()
+
+    if (error) {
+      setError(error.message)
+      return
+    }
+
+    if ((data as UserRow).archived_at) {
+      await signOutArchived()
+      return
+    }
+
+    setCurrentUser(data as UserRow)
+  }
+
+  // The database already ignores an archived account; this ends the session too.
+  const signOutArchived = async () => {
+    await supabase.auth.signOut()
+    setCurrentUser(null)
+    setError('This account has been archived. Ask an admin to restore it.')
+  }
+
+  const fetchMyBets = async (userId: string) => {
+    let query = supabase
       .from('bets')
-      .select('*, game:games(home_team, away_team)')
+      .select(`*, game:games(${GAME_SCORE_FIELDS}), legs:parlay_legs(*, game:games(${GAME_SCORE_FIELDS}))`)
       .eq('user_id', userId)
-      .order('placed_at', { ascending: false })
+
+    query = activeLeagueId ? query.eq('league_id', activeLeagueId) : query.is('league_id', null)
+
+    const { data, error } = await query.order('placed_at', { ascending: false })
 
     if (error) {
       setBetError(error.message)
@@ -190,12 +311,75 @@ function App() {
     setMyBets((data as BetRow[]) || [])
   }
 
+  const loadMyLeagues = async (userId: string) => {
+    try {
+      setMyLeagues(await fetchMyLeagues(userId))
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load leagues')
+    }
+  }
+
+  const loadStandings = async (leagueId: string) => {
+    try {
+      setStandings(await fetchLeagueStandings(leagueId))
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load league standings')
+    }
+  }
+
+  // Balances live on the user for the global pool and on the membership for a league.
+  const refreshBalances = async (userId: string) => {
+    await refreshCurrentUser(userId)
+    await loadMyLeagues(userId)
+    await fetchUsers()
+    if (activeLeagueId) {
+      await loadStandings(activeLeagueId)
+    }
+  }
+
+  const loadClvAverages = async (leagueId: string | null) => {
+    try {
+      setClvAverages(await fetchClvAverages(leagueId))
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load closing line value')
+    }
+  }
+
+  const handleCreateLeague = async (name: string, startingBalance: number) => {
+    if (!currentUser) return
+    const league = await createLeague(name, startingBalance)
+    await loadMyLeagues(currentUser.id)
+    setActiveLeagueId(league.id)
+  }
+
+  const handleJoinLeague = async (inviteCode: string) => {
+    if (!currentUser) return
+    const league = await joinLeague(inviteCode)
+    await loadMyLeagues(currentUser.id)
+    setActiveLeagueId(league.id)
+  }
+
   const loadOdds = async () => {
     try {
       setLoadingOdds(true)
       setOddsError('')
-      const data = await fetchNflSpreadsDraftKings()
+      const { games: data, ...meta } = await loadCachedOdds(sportKey)
       setGames(data)
+      setOddsMeta(meta)
+      setNow(Date.now())
+      if (meta.quotaBlocked) {
+        setOddsError(`Odds API quota is low (${meta.quota.remaining} requests left), so refreshes are paused. Showing the last odds fetched.`)
+      }
+      if (meta.stale) {
+        setOddsError('These odds are out of date and only an admin can refresh them. Bets are refused until they do.')
+      }
+      // cached odds were recorded when they were fetched
+      if (!meta.fromCache) {
+        // history is best effort; a failed write shouldn't hide the odds
+        recordOddsSnapshot(data).catch((err: unknown) => {
+          setOddsError(err instanceof Error ? err.message : 'Failed to record odds history')
+        })
+      }
     } catch (err: any) {
       setOddsError(err.message ?? 'Failed to load odds')
     } finally {
@@ -203,30 +387,128 @@ function App() {
     }
   }
 
+  const syncScores = async () => {
+    if (!currentUser) return
+
+    try {
+      setSyncingScores(true)
+      setScoresMessage('')
+      const scored = await captureClosingLines()
+      // admins pull scores and grade everyone's bets; players grade their
+      // own from the scores already recorded
+      const settled = currentUser.role === 'ADMIN'
+        ? await syncFinalScores()
+        : await gradePendingBets(currentUser.id)
+      setScoresMessage(settled > 0 ? `Graded ${settled} bet${settled === 1 ? '' : 's'} from final scores.` : '')
+      if (settled > 0 || scored > 0) {
+        setLastGradedAt(Date.now())
+      }
+    } catch (err: unknown) {
+      setScoresMessage(err instanceof Error ? err.message : 'Failed to sync scores')
+    } finally {
+      setSyncingScores(false)
+    }
+  }
+
   useEffect(() => {
     fetchUsers()
+  }, [])
+
+  useEffect(() => {
     loadOdds()
+  }, [sportKey])
+
+  useEffect(() => {
+    if (!leaderboardSport) {
+      setSportStats([])
+      return
+    }
+    fetchSportStandings(activeLeagueId, leaderboardSport)
+      .then(setSportStats)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load sport standings'))
+  }, [leaderboardSport, activeLeagueId, lastGradedAt, betsChangedAt])
+
+  // keeps the cache age in the odds header current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(timer)
   }, [])
 
+  useEffect(() => {
+    if (currentUser) {
+      loadMyLeagues(currentUser.id)
+      // games rows are only written by admins
+      if (currentUser.role === 'ADMIN') {
+        backfillGameWeeks().catch((err: unknown) => {
+          setError(err instanceof Error ? err.message : 'Failed to backfill game weeks')
+        })
+      }
+      syncScores()
+    } else {
+      setMyLeagues([])
+      setActiveLeagueId(null)
+    }
+  }, [currentUser?.id])
+
   useEffect(() => {
     if (currentUser) {
       fetchMyBets(currentUser.id)
     } else {
       setMyBets([])
     }
-  }, [currentUser?.id])
+  }, [currentUser?.id, activeLeagueId])
 
-  const loginWithUsername = async (rawName: string) => {
-    const trimmed = rawName.trim().toLowerCase()
-    if (!trimmed) return
+  useEffect(() => {
+    if (currentUser) {
+      loadClvAverages(activeLeagueId)
+    } else {
+      setClvAverages([])
+    }
+  }, [currentUser?.id, activeLeagueId, lastGradedAt, betsChangedAt])
+
+  useEffect(() => {
+    if (activeLeagueId) {
+      loadStandings(activeLeagueId)
+    } else {
+      setStandings([])
+    }
+  }, [activeLeagueId])
+
+  // balances and statuses change underneath the current user when their bets are auto-graded
+  useEffect(() => {
+    if (!currentUser || lastGradedAt == null) return
+    refreshBalances(currentUser.id)
+    fetchMyBets(currentUser.id)
+  }, [lastGradedAt])
+
+  // Other players' bets and balances change while this screen is open.
+  const handleRealtimeChange = (changed: Set<RealtimeTable>) => {
+    if (!currentUser) return
+    if (changed.has('users') || changed.has('league_members') || changed.has('transactions')) {
+      refreshBalances(currentUser.id)
+    }
+    if (changed.has('bets')) {
+      fetchMyBets(currentUser.id)
+      setBetsChangedAt(Date.now())
+    }
+  }
 
+  const realtimeStatus = useRealtime(
+    ['users', 'bets', 'transactions', 'league_members'],
+    handleRealtimeChange,
+    currentUser != null
+  )
+
+  // Loads the profile linked to the signed-in auth user, creating it on the
+  // first sign-in from the username chosen at sign up.
+  const loadProfile = async (authUser: User) => {
     setLoadingUser(true)
     setError('')
 
     const { data: existing, error: selectError } = await supabase
       .from('users')
       .select('*')
-      .eq('username', trimmed)
+      .eq('auth_user_id', authUser.id)
       .maybeSingle()
 
     if (selectError) {
@@ -236,91 +518,91 @@ function App() {
     }
 
     if (existing) {
-      const user = existing as UserRow
-      setCurrentUser(user)
-      await fetchMyBets(user.id)
+      if ((existing as UserRow).archived_at) {
+        await signOutArchived()
+      } else {
+        setCurrentUser(existing as UserRow)
+      }
       setLoadingUser(false)
       return
     }
 
-    const { data: inserted, error: insertError } = await supabase
-      .from('users')
-      .insert({
-        username: trimmed,
-        display_name: trimmed
-      })
-      .select()
-      .single()
-
-    if (insertError || !inserted) {
-      setError(insertError?.message || 'Failed to create user')
+    const username = authUser.user_metadata?.username as string | undefined
+    if (!username) {
+      setError('No profile found for this account. Please sign up first.')
       setLoadingUser(false)
       return
     }
 
-    const newUser = inserted as UserRow
-    setCurrentUser(newUser)
+    const { data: created, error: createError } = await supabase.rpc('create_profile', {
+      p_username: username
+    })
 
-    const tx: TransactionInsert = {
-      user_id: newUser.id,
-      type: 'INITIAL',
-      amount: newUser.starting_balance,
-      balance_after: newUser.current_balance
+    if (createError || !created) {
+      setError(createError?.message || 'Failed to create user')
+      setLoadingUser(false)
+      return
     }
 
-    await supabase.from('transactions').insert(tx)
-
+    setCurrentUser(created as UserRow)
     await fetchUsers()
-    await fetchMyBets(newUser.id)
     setLoadingUser(false)
   }
 
-  // ----- New: separate modal submit handlers -----
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT') {
+        setCurrentUser(null)
+        return
+      }
+
+      if ((event === 'INITIAL_SESSION' || event === 'SIGNED_IN') && session) {
+        // supabase calls made inside this callback can deadlock, so defer
+        setTimeout(() => loadProfile(session.user), 0)
+      }
+    })
+
+    return () => subscription.unsubscribe()
+  }, [])
+
   const handleLoginModalSubmit = async (e: FormEvent) => {
     e.preventDefault()
-    const trimmed = loginUsername.trim().toLowerCase()
-    if (!trimmed) return
+    const email = loginEmail.trim()
+    if (!email || !loginPassword) return
 
     setLoadingUser(true)
     setError('')
 
-    const { data: existing, error: selectError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('username', trimmed)
-      .maybeSingle()
+    const { error: signInError } = await supabase.auth.signInWithPassword({
+      email,
+      password: loginPassword
+    })
 
-    if (selectError) {
-      setError(selectError.message)
-      setLoadingUser(false)
-      return
-    }
+    setLoadingUser(false)
 
-    if (!existing) {
-      setError('User not found. Please sign up first.')
-      setLoadingUser(false)
+    if (signInError) {
+      setError(signInError.message)
       return
     }
 
-    const user = existing as UserRow
-    setCurrentUser(user)
-    await fetchMyBets(user.id)
     setShowLoginModal(false)
-    setLoginUsername('')
-    setLoadingUser(false)
+    setLoginEmail('')
+    setLoginPassword('')
   }
 
   const handleSignupModalSubmit = async (e: FormEvent) => {
     e.preventDefault()
     const trimmed = signupUsername.trim().toLowerCase()
-    if (!trimmed) return
+    const email = signupEmail.trim()
+    if (!trimmed || !email || !signupPassword) return
 
     setLoadingUser(true)
     setError('')
+    setAuthMessage('')
 
     const { data: existing, error: selectError } = await supabase
       .from('users')
-      .select('*')
+      .select('id, auth_user_id')
       .eq('username', trimmed)
       .maybeSingle()
 
@@ -330,134 +612,107 @@ function App() {
       return
     }
 
-    if (existing) {
-      setError('Username already exists. Please log in instead.')
+    // a profile from before sign-in is signed up for under its own username,
+    // then linked to the new sign-in by an admin
+    if (existing && existing.auth_user_id) {
+      setError('Username already exists. Please choose another.')
       setLoadingUser(false)
       return
     }
 
-    const { data: inserted, error: insertError } = await supabase
-      .from('users')
-      .insert({ username: trimmed, display_name: trimmed })
-      .select()
-      .single()
+    // the profile itself is created on first sign-in, see loadProfile
+    const { data, error: signUpError } = await supabase.auth.signUp({
+      email,
+      password: signupPassword,
+      options: { data: { username: trimmed } }
+    })
 
-    if (insertError || !inserted) {
-      setError(insertError?.message || 'Failed to create user')
-      setLoadingUser(false)
+    setLoadingUser(false)
+
+    if (signUpError) {
+      setError(signUpError.message)
       return
     }
 
-    const newUser = inserted as UserRow
-    setCurrentUser(newUser)
-
-    const tx: TransactionInsert = {
-      user_id: newUser.id,
-      type: 'INITIAL',
-      amount: newUser.starting_balance,
-      balance_after: newUser.current_balance
+    if (existing) {
+      const ask = data.session ? 'Ask' : 'Check your email to confirm your account, then ask'
+      setAuthMessage(`${ask} an admin to link ${trimmed} to ${email} to get your balance and history back.`)
+    } else if (!data.session) {
+      setAuthMessage('Check your email to confirm your account, then log in.')
     }
 
-    await supabase.from('transactions').insert(tx)
-    await fetchUsers()
-    await fetchMyBets(newUser.id)
     setShowSignupModal(false)
     setSignupUsername('')
-    setLoadingUser(false)
+    setSignupEmail('')
+    setSignupPassword('')
   }
 
-  // ----- New: delete user handler -----
-  const handleDeleteUser = async (userId: string) => {
-    try {
-      const { error } = await supabase.from('users').delete().eq('id', userId)
-      if (error) {
-        setError(error.message)
-        return
-      }
-      await fetchUsers()
-      setDeleteConfirmUser(null)
-    } catch (err: any) {
-      setError(err.message ?? 'Failed to delete user')
+  const handleLogout = async () => {
+    const { error: signOutError } = await supabase.auth.signOut()
+    if (signOutError) {
+      setError(signOutError.message)
     }
   }
 
-  useEffect(() => {
-  const rawHash = window.location.hash
-  if (!rawHash) return
-
-  const cleaned = rawHash.replace(/^#\/?/, '')
-  const segments = cleaned.split('/').filter(Boolean)
-  const fromUrl = segments[0]
-
-  if (fromUrl) {
-    const decoded = decodeURIComponent(fromUrl)
-    loginWithUsername(decoded)
-  }
-}, [])
-
-useEffect(() => {
-  loginWithUsername('adamse');
-}, []);
-
-
-  const openBetSlip = (game: NflSpreadGame, side: 'HOME' | 'AWAY') => {
+  const openBetSlip = (game: OddsGame, market: MarketType, side: BetSide) => {
     if (!currentUser) {
       setBetError('Log in first to place a bet.')
       return
     }
 
-    const spread = side === 'HOME' ? game.homeSpread : game.awaySpread
-    if (!spread) {
-      setBetError('No spread available for that side.')
+    const outcome = getBestOutcome(game, market, side)
+    if (!outcome) {
+      setBetError(`No ${getMarketLabel(market, game.sportKey).toLowerCase()} available for that side.`)
       return
     }
 
     setBetError('')
-    setStakeInput('')
-    setSelectedBet({ game, side, spread })
-  }
 
-  const ensureGameInDb = async (game: NflSpreadGame): Promise<GameRow> => {
-    const { data: existing, error: selectError } = await supabase
-      .from('games')
-      .select('*')
-      .eq('external_game_id', game.id)
-      .maybeSingle()
-
-    if (selectError) {
-      throw new Error(selectError.message)
+    if (parlayMode) {
+      // one leg per game; picking another side of the same game replaces it
+      setParlayLegs((legs) => [...legs.filter((leg) => leg.game.id !== game.id), { game, outcome }])
+      return
     }
 
-    if (existing) {
-      return existing as GameRow
-    }
+    setStakeInput('')
+    setSelectedBet({ game, outcome })
+  }
 
-    const kickoff = new Date(game.commenceTime)
-    const season = kickoff.getFullYear()
-    const week = 0
-
-    const { data: inserted, error: insertError } = await supabase
-      .from('games')
-      .insert({
-        season,
-        week,
-        home_team: game.homeTeam,
-        away_team: game.awayTeam,
-        kickoff_at: kickoff.toISOString(),
-        external_game_id: game.id
-      })
-      .select()
-      .single()
+  // the slip only holds games from the sport on screen, so parlays never mix sports
+  const selectSport = (key: SportKey) => {
+    if (key === sportKey) return
+    setSportKey(key)
+    setGames([])
+    setSelectedBet(null)
+    setParlayLegs([])
+    setBetError('')
+  }
 
-    if (insertError || !inserted) {
-      throw new Error(insertError?.message || 'Failed to insert game')
-    }
+  // Follows a ledger entry back to its bet in the bet list.
+  const showBetFromLedger = (betId: string) => {
+    const bet = myBets.find((b) => b.id === betId)
+    if (!bet) return
+    selectSport(getBetSport(bet))
+    setShowPastBets(bet.status !== 'PENDING')
+    setInfoForBetId(bet.id)
+    setTimeout(() => document.getElementById(`bet-${bet.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 0)
+  }
 
-    return inserted as GameRow
+  const toggleParlayMode = () => {
+    setParlayMode(!parlayMode)
+    setParlayLegs(selectedBet && !parlayMode ? [selectedBet] : [])
+    setSelectedBet(null)
+    setBetError('')
   }
 
   const handlePlaceBet = async () => {
-    if (!currentUser || !selectedBet) return
+    if (!currentUser) return
+    if (!parlayMode && !selectedBet) return
+
+    if (parlayMode && parlayLegs.length < 2) {
+      setBetError('A parlay needs at least two legs.')
+      return
+    }
 
     const parsedStake = parseFloat(stakeInput)
     if (isNaN(parsedStake) || parsedStake <= 0) {
@@ -465,67 +720,79 @@ useEffect(() => {
       return
     }
 
-    if (parsedStake > currentUser.current_balance) {
+    if (activeBalance == null || parsedStake > activeBalance) {
       setBetError('Stake exceeds your current balance.')
       return
     }
 
+    // the slip can sit open past kickoff, so check again at submit
+    const startedGame = (parlayMode ? parlayLegs : [selectedBet!]).map((leg) => leg.game).find((g) => hasKickedOff(g))
+    if (startedGame) {
+      const kickoff = new Date(startedGame.commenceTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+      setBetError(`${startedGame.awayTeam} @ ${startedGame.homeTeam} kicked off at ${kickoff}. Betting on it is closed${parlayMode ? '; remove that leg to place the parlay' : ''}.`)
+      return
+    }
+
     setPlacingBet(true)
     setBetError('')
 
     try {
-      const gameRow = await ensureGameInDb(selectedBet.game)
-
-      const betInsert: BetInsert = {
-        user_id: currentUser.id,
-        game_id: gameRow.id,
-        side: selectedBet.side,
-        team_name: selectedBet.spread.teamName,
-        spread_line: selectedBet.spread.point,
-        odds_american: selectedBet.spread.price,
-        stake: parsedStake
-      }
-
-      const { data: betData, error: betError } = await supabase
-        .from('bets')
-        .insert(betInsert)
-        .select()
-        .single()
-
-      if (betError || !betData) {
-        throw new Error(betError?.message || 'Failed to insert bet')
-      }
-
-      const newBalance = currentUser.current_balance - parsedStake
-
-      const tx: TransactionInsert = {
-        user_id: currentUser.id,
-        bet_id: betData.id,
-        type: 'BET_PLACED',
-        amount: -parsedStake,
-        balance_after: newBalance
-      }
-
-      const { error: txError } = await supabase.from('transactions').insert(tx)
-      if (txError) {
-        throw new Error(txError.message)
+      let betInsert: BetInsert
+      const legInserts: ParlayLegInsert[] = []
+
+      if (parlayMode) {
+        for (const leg of parlayLegs) {
+          const gameRow = await findGameInDb(leg.game)
+          legInserts.push({ game_id: gameRow.id, ...getSelectionFields(leg, devigMethod) })
+        }
+
+        const legFairOdds = legInserts.map((leg) => leg.fair_odds_american).filter((o): o is number => o != null)
+        // only priced when every leg could be
+        const parlayFairOdds = legFairOdds.length === legInserts.length ? combineAmericanOdds(legFairOdds) : null
+
+        betInsert = {
+          bet_type: 'PARLAY',
+          game_id: null,
+          market: null,
+          side: null,
+          team_name: `${parlayLegs.length}-Leg Parlay`,
+          spread_line: null,
+          total_line: null,
+          odds_american: combineAmericanOdds(parlayLegs.map((leg) => leg.outcome.price)),
+          bookmaker: null,
+          opposing_odds_american: null,
+          fair_odds_american: parlayFairOdds,
+          devig_method: parlayFairOdds != null ? devigMethod : null,
+          stake: parsedStake
+        }
+      } else {
+        const gameRow = await findGameInDb(selectedBet!.game)
+
+        betInsert = {
+          bet_type: 'STRAIGHT',
+          game_id: gameRow.id,
+          ...getSelectionFields(selectedBet!, devigMethod),
+          stake: parsedStake
+        }
       }
 
-      const { data: updatedUser, error: userUpdateError } = await supabase
-        .from('users')
-        .update({ current_balance: newBalance })
-        .eq('id', currentUser.id)
-        .select()
-        .single()
+      // stake check, bet, ledger entry and balance are written atomically;
+      // the database prices every selection from the recorded odds and
+      // refuses one that has moved against the player
+      const { error: placeError } = await supabase.rpc('place_bet', {
+        p_bet: betInsert,
+        p_legs: legInserts,
+        p_league_id: activeLeagueId
+      })
 
-      if (userUpdateError || !updatedUser) {
-        throw new Error(userUpdateError?.message || 'Failed to update user balance')
+      if (placeError) {
+        throw new Error(placeError.message)
       }
 
-      setCurrentUser(updatedUser as UserRow)
-      await fetchUsers()
+      await refreshBalances(currentUser.id)
       await fetchMyBets(currentUser.id)
       setSelectedBet(null)
+      setParlayLegs([])
       setStakeInput('')
     } catch (err: any) {
       setBetError(err.message ?? 'Failed to place bet')
@@ -534,116 +801,198 @@ useEffect(() => {
     }
   }
 
-  const handleSettleBet = async (bet: BetRow, result: SettleResult) => {
-    if (!currentUser) {
-      setBetError('Log in first to settle bets.')
-      return
-    }
-
-    if (bet.status !== 'PENDING') {
-      setBetError('Bet is already settled.')
-      return
-    }
-
+  const handleRequestCashOut = async (bet: BetRow) => {
     setSettlingBetId(bet.id)
     setBetError('')
 
     try {
-      let payout = 0
-      let profit = 0
-
-      if (result === 'WON') {
-        const rawProfit = calculateProfit(bet.stake, bet.odds_american)
-        profit = Number(rawProfit.toFixed(2))
-        payout = bet.stake + profit
-      } else if (result === 'LOST') {
-        profit = -bet.stake
-        payout = 0
-      } else if (result === 'PUSH') {
-        profit = 0
-        payout = bet.stake
-      }
-
-      let fairProfit = 0
-      let fairPayout = 0
-
-      if (result === 'WON') {
-        fairProfit = bet.stake
-        fairPayout = bet.stake + fairProfit
-      } else if (result === 'LOST') {
-        fairProfit = -bet.stake
-        fairPayout = 0
-      } else if (result === 'PUSH') {
-        fairProfit = 0
-        fairPayout = bet.stake
-      }
-
-      const { data: updatedBet, error: betUpdateError } = await supabase
-        .from('bets')
-        .update({
-          status: result,
-          payout,
-          profit,
-          fair_profit: fairProfit,
-          fair_payout: fairPayout,
-          settled_at: new Date().toISOString()
-        })
-        .eq('id', bet.id)
-        .select()
-        .single()
-
-      if (betUpdateError || !updatedBet) {
-        throw new Error(betUpdateError?.message || 'Failed to update bet')
-      }
+      const amount = await fetchCashOutQuote(bet.id)
+      setCashOutOffer({ betId: bet.id, amount })
+    } catch (err: unknown) {
+      setBetError(err instanceof Error ? err.message : 'Failed to price cash-out')
+    } finally {
+      setSettlingBetId(null)
+    }
+  }
 
-      const amount = payout
-      const newBalance = currentUser.current_balance + amount
+  const handleConfirmCashOut = async (bet: BetRow, amount: number) => {
+    if (!currentUser) return
 
-      const tx: TransactionInsert = {
-        user_id: currentUser.id,
-        bet_id: bet.id,
-        type: 'BET_SETTLED',
-        amount,
-        balance_after: newBalance
-      }
+    setSettlingBetId(bet.id)
+    setBetError('')
 
-      const { error: txError } = await supabase.from('transactions').insert(tx)
-      if (txError) {
-        throw new Error(txError.message)
-      }
+    try {
+      await cashOutBet(bet.id, amount)
+      setCashOutOffer(null)
+      await refreshBalances(currentUser.id)
+      await fetchMyBets(currentUser.id)
+    } catch (err: unknown) {
+      setCashOutOffer(null)
+      setBetError(err instanceof Error ? err.message : 'Failed to cash out bet')
+    } finally {
+      setSettlingBetId(null)
+    }
+  }
 
-      const { data: updatedUser, error: userUpdateError } = await supabase
-        .from('users')
-        .update({ current_balance: newBalance })
-        .eq('id', currentUser.id)
-        .select()
-        .single()
+  const handleCancelBet = async (bet: BetRow) => {
+    if (!currentUser) return
 
-      if (userUpdateError || !updatedUser) {
-        throw new Error(userUpdateError?.message || 'Failed to update user balance')
-      }
+    setSettlingBetId(bet.id)
+    setBetError('')
 
-      setCurrentUser(updatedUser as UserRow)
-      await fetchUsers()
+    try {
+      await cancelBet(bet.id)
+      await refreshBalances(currentUser.id)
       await fetchMyBets(currentUser.id)
-    } catch (err: any) {
-      setBetError(err.message ?? 'Failed to settle bet')
+    } catch (err: unknown) {
+      setBetError(err instanceof Error ? err.message : 'Failed to cancel bet')
     } finally {
       setSettlingBetId(null)
     }
   }
 
+  const handleSaveBankrollSettings = async (settings: BankrollSettings) => {
+    if (!currentUser) return
+    await saveBankrollSettings(currentUser.id, settings)
+    await refreshCurrentUser(currentUser.id)
+  }
+
+  // Price of the slip and its no-vig chance of winning; a parlay's is the
+  // product of its legs'. Null when a side has no price on the other side.
+  const getSlipPricing = (): { price: number; fairProbability: number | null } | null => {
+    const selections = parlayMode ? parlayLegs : selectedBet ? [selectedBet] : []
+    if (selections.length === 0 || (parlayMode && selections.length < 2)) return null
+
+    const fairProbabilities = selections.map(({ game, outcome }) => {
+      const opposing = getOpposingOutcome(game, outcome)
+      return opposing ? devigProbabilities([outcome.price, opposing.price], devigMethod)[0] : null
+    })
+
+    return {
+      price: combineAmericanOdds(selections.map((s) => s.outcome.price)),
+      fairProbability: fairProbabilities.every((p) => p != null)
+        ? fairProbabilities.reduce((product, p) => product * p!, 1)
+        : null
+    }
+  }
+
+  // Unit and Kelly stake buttons, plus warnings when the stake breaks the
+  // user's bankroll rules.
+  const renderStakeHelp = () => {
+    const pricing = getSlipPricing()
+    if (!currentUser || activeBalance == null || !pricing) return null
+
+    const estimate = parseFloat(winEstimateInput)
+    const winProbability = !isNaN(estimate) && estimate > 0 && estimate < 100 ? estimate / 100 : null
+    const kellyStake = winProbability != null ? getKellyStake(currentUser, activeBalance, winProbability, pricing.price) : null
+    const stake = parseFloat(stakeInput)
+    const warnings = !isNaN(stake) && stake > 0
+      ? getStakeWarnings(currentUser, activeBalance, stake, pricing.price, winProbability, pricing.fairProbability)
+      : []
+
+    return (
+      <div style={{ marginTop: '0.5rem', fontSize: '0.9rem' }}>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          Suggested
+          {getUnitSuggestions(currentUser, activeBalance).map((s) => (
+            <button key={s.label} type="button" onClick={() => setStakeInput(s.stake.toFixed(2))}>
+              {s.label} · {s.stake.toFixed(2)}
+            </button>
+          ))}
+          {currentUser.kelly_fraction != null && (
+            <>
+              <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+                Your win %
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  placeholder={pricing.fairProbability != null ? (pricing.fairProbability * 100).toFixed(1) : ''}
+                  value={winEstimateInput}
+                  onChange={(e) => setWinEstimateInput(e.target.value)}
+                  style={{ width: '5rem' }}
+                />
+              </label>
+              {kellyStake != null && (
+                <button type="button" onClick={() => setStakeInput(kellyStake.toFixed(2))}>
+                  Kelly · {kellyStake.toFixed(2)}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+        {pricing.fairProbability != null && (
+          <div style={{ color: 'var(--color-text-secondary)', marginTop: '0.25rem' }}>
+            No-vig chance of winning {(pricing.fairProbability * 100).toFixed(1)}%
+          </div>
+        )}
+        {warnings.map((w) => (
+          <div key={w} style={{ color: 'var(--color-warning-text)', marginTop: '0.25rem' }}>
+            {w}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const renderBookSelect = (bet: SelectedBet, onSelect: (outcome: MarketOutcome) => void) => {
+    const outcomes = getBookOutcomes(bet.game, bet.outcome.market, bet.outcome.side)
+    return (
+      <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.5rem' }}>
+        Book
+        <select
+          value={bet.outcome.bookmaker}
+          onChange={(e) => {
+            const outcome = outcomes.find((o) => o.bookmaker === e.target.value)
+            if (outcome) onSelect(outcome)
+          }}
+        >
+          {outcomes.map((o) => (
+            <option key={o.bookmaker} value={o.bookmaker}>
+              {o.bookmakerTitle}: {formatOutcome(o)}
+            </option>
+          ))}
+        </select>
+      </label>
+    )
+  }
+
   let fairBalance: number | null = null
-  if (currentUser) {
+  if (activeStartingBalance != null) {
     const fairProfitSum = myBets
       .filter((b) => b.fair_profit != null)
       .reduce((sum, b) => sum + (b.fair_profit ?? 0), 0)
-    fairBalance = currentUser.starting_balance + fairProfitSum
+    fairBalance = activeStartingBalance + fairProfitSum
   }
 
+  const bankrollRows = activeLeagueId
+    ? standings.map((m) => ({
+        id: m.user_id,
+        name: m.user?.display_name || m.user?.username || 'Unknown',
+        balance: m.current_balance
+      }))
+    : users.map((u) => ({
+        id: u.id,
+        name: u.display_name || u.username,
+        balance: u.current_balance
+      }))
+
+  // ranked by balance across all sports, or by profit within one
+  const leaderboardRows = leaderboardSport
+    ? sportStats.flatMap((stats) => {
+        const row = bankrollRows.find((r) => r.id === stats.user_id)
+        return row ? [{ ...row, value: stats.profit, clv: stats }] : []
+      })
+    : bankrollRows.map((row) => ({
+        ...row,
+        value: row.balance,
+        clv: clvAverages.find((c) => c.user_id === row.id) ?? null
+      }))
+
   return (
     <main className="container app-container">
-      <h1>Mock NFL Betting</h1>
+      <h1>Mock Sports Betting</h1>
 
       <section style={{ marginBottom: '1.5rem' }}>
         <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
@@ -653,7 +1002,7 @@ useEffect(() => {
               <button onClick={() => setShowSignupModal(true)}>Sign Up</button>
             </>
           ) : (
-            <button onClick={() => { setCurrentUser(null) }}>Logout</button>
+            <button onClick={handleLogout}>Logout</button>
           )}
         </div>
 
@@ -661,8 +1010,18 @@ useEffect(() => {
           <div style={{ marginTop: '0.5rem' }}>
             <p>
               Logged in as <strong>{currentUser.display_name || currentUser.username}</strong> · Balance{' '}
-              {currentUser.current_balance.toFixed(2)}
+              {(activeBalance ?? 0).toFixed(2)}
+              <span style={{ marginLeft: '0.5rem', fontSize: '0.85rem', color: 'var(--color-text-secondary)' }}>
+                {REALTIME_LABELS[realtimeStatus]}
+              </span>
             </p>
+            <LeaguePanel
+              leagues={myLeagues}
+              activeLeagueId={activeLeagueId}
+              onSelect={setActiveLeagueId}
+              onCreate={handleCreateLeague}
+              onJoin={handleJoinLeague}
+            />
             <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.9rem' }}>
               <input
                 type="checkbox"
@@ -671,11 +1030,39 @@ useEffect(() => {
               />
               Show fair balance (no vig)
             </label>
+            <button type="button" onClick={() => setShowBankrollRules(!showBankrollRules)} style={{ marginLeft: '0.75rem' }}>
+              Bankroll Rules
+            </button>
+            {showFairBalance && (
+              <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.9rem', marginLeft: '0.75rem' }}>
+                No-vig method
+                <select
+                  value={devigMethod}
+                  onChange={(e) => {
+                    setDevigMethod(e.target.value as DevigMethod)
+                    localStorage.setItem('devigMethod', e.target.value)
+                  }}
+                >
+                  {DEVIG_METHODS.map((m) => (
+                    <option key={m.key} value={m.key}>{m.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
             {showFairBalance && fairBalance != null && (
               <p style={{ marginTop: '0.25rem', fontSize: '0.9rem', color: 'var(--color-text-secondary)' }}>
-                Fair balance (if spreads were even money): {fairBalance.toFixed(2)}
+                Fair balance (every bet paid at its no-vig price): {fairBalance.toFixed(2)}
+                <br />
+                The method applies to bets placed from now on.
               </p>
             )}
+            {showBankrollRules && (
+              <BankrollPanel
+                settings={currentUser}
+                onSave={handleSaveBankrollSettings}
+                onClose={() => setShowBankrollRules(false)}
+              />
+            )}
           </div>
         )}
 
@@ -685,6 +1072,12 @@ useEffect(() => {
           </p>
         )}
 
+        {authMessage && (
+          <p style={{ marginTop: '0.5rem' }}>
+            {authMessage}
+          </p>
+        )}
+
         {/* Login Modal */}
         {showLoginModal && (
           <div style={{
@@ -711,7 +1104,7 @@ useEffect(() => {
                 <h2 style={{ margin: 0 }}>Login</h2>
                 <button
                   type="button"
-                  onClick={() => { setShowLoginModal(false); setLoginUsername(''); }}
+                  onClick={() => { setShowLoginModal(false); setLoginEmail(''); setLoginPassword(''); }}
                   style={{
                     background: 'none',
                     border: 'none',
@@ -727,10 +1120,19 @@ useEffect(() => {
               </div>
               <form onSubmit={handleLoginModalSubmit}>
                 <input
-                  type="text"
-                  placeholder="Enter username"
-                  value={loginUsername}
-                  onChange={(e) => setLoginUsername(e.target.value)}
+                  type="email"
+                  placeholder="Email"
+                  autoComplete="email"
+                  value={loginEmail}
+                  onChange={(e) => setLoginEmail(e.target.value)}
+                  style={{ width: '100%', marginBottom: '0.5rem' }}
+                />
+                <input
+                  type="password"
+                  placeholder="Password"
+                  autoComplete="current-password"
+                  value={loginPassword}
+                  onChange={(e) => setLoginPassword(e.target.value)}
                   style={{ width: '100%', marginBottom: '1rem' }}
                 />
                 <div style={{ display: 'flex', gap: '0.5rem' }}>
@@ -739,7 +1141,7 @@ useEffect(() => {
                   </button>
                   <button
                     type="button"
-                    onClick={() => { setShowLoginModal(false); setLoginUsername(''); }}
+                    onClick={() => { setShowLoginModal(false); setLoginEmail(''); setLoginPassword(''); }}
                     style={{ flex: 1 }}
                   >
                     Cancel
@@ -776,7 +1178,7 @@ useEffect(() => {
                 <h2 style={{ margin: 0 }}>Sign Up</h2>
                 <button
                   type="button"
-                  onClick={() => { setShowSignupModal(false); setSignupUsername(''); }}
+                  onClick={() => { setShowSignupModal(false); setSignupUsername(''); setSignupEmail(''); setSignupPassword(''); }}
                   style={{
                     background: 'none',
                     border: 'none',
@@ -796,6 +1198,22 @@ useEffect(() => {
                   placeholder="Choose a username"
                   value={signupUsername}
                   onChange={(e) => setSignupUsername(e.target.value)}
+                  style={{ width: '100%', marginBottom: '0.5rem' }}
+                />
+                <input
+                  type="email"
+                  placeholder="Email"
+                  autoComplete="email"
+                  value={signupEmail}
+                  onChange={(e) => setSignupEmail(e.target.value)}
+                  style={{ width: '100%', marginBottom: '0.5rem' }}
+                />
+                <input
+                  type="password"
+                  placeholder="Password"
+                  autoComplete="new-password"
+                  value={signupPassword}
+                  onChange={(e) => setSignupPassword(e.target.value)}
                   style={{ width: '100%', marginBottom: '1rem' }}
                 />
                 <div style={{ display: 'flex', gap: '0.5rem' }}>
@@ -804,7 +1222,7 @@ useEffect(() => {
                   </button>
                   <button
                     type="button"
-                    onClick={() => { setShowSignupModal(false); setSignupUsername(''); }}
+                    onClick={() => { setShowSignupModal(false); setSignupUsername(''); setSignupEmail(''); setSignupPassword(''); }}
                     style={{ flex: 1 }}
                   >
                     Cancel
@@ -815,49 +1233,6 @@ useEffect(() => {
           </div>
         )}
 
-        {/* Delete Confirmation Modal */}
-        {deleteConfirmUser && (
-          <div style={{
-            position: 'fixed',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            backgroundColor: 'var(--color-modal-overlay)',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            zIndex: 1000
-          }}>
-            <div style={{
-              backgroundColor: 'var(--color-white)',
-              padding: '2rem',
-              borderRadius: '8px',
-              maxWidth: '400px',
-              width: '90%',
-              boxShadow: '0 4px 6px var(--color-shadow-light)'
-            }}>
-              <h2 style={{ margin: '0 0 1rem 0' }}>Confirm Delete</h2>
-              <p style={{ marginBottom: '1.5rem' }}>
-                Are you sure you want to delete <strong>{deleteConfirmUser.display_name || deleteConfirmUser.username}</strong>? This action cannot be undone.
-              </p>
-              <div style={{ display: 'flex', gap: '0.5rem' }}>
-                <button
-                  onClick={() => handleDeleteUser(deleteConfirmUser.id)}
-                  style={{ flex: 1, background: 'var(--color-danger)', color: 'var(--color-white)' }}
-                >
-                  Delete
-                </button>
-                <button
-                  onClick={() => setDeleteConfirmUser(null)}
-                  style={{ flex: 1 }}
-                >
-                  Cancel
-                </button>
-              </div>
-            </div>
-          </div>
-        )}
         {/* Info popover replaced by inline row replacement when active */}
       </section>
 
@@ -867,47 +1242,38 @@ useEffect(() => {
         </button>
         {showLeaderboard && (
           <>
-            <h2>Leaderboard</h2>
-            {users.length === 0 && <p>No users yet.</p>}
-        {users.length > 0 && (
+            <h2>{activeMembership?.league ? `${activeMembership.league.name} Leaderboard` : 'Leaderboard'}</h2>
+            <select
+              value={leaderboardSport ?? ''}
+              onChange={(e) => setLeaderboardSport((e.target.value || null) as SportKey | null)}
+              style={{ marginBottom: '0.5rem' }}
+            >
+              <option value="">All sports</option>
+              {SPORTS.map((s) => (
+                <option key={s.key} value={s.key}>{s.label}</option>
+              ))}
+            </select>
+            {leaderboardRows.length === 0 && <p>No users yet.</p>}
+        {leaderboardRows.length > 0 && (
           <table style={{ width: '100%', borderCollapse: 'collapse' }}>
             <thead>
               <tr>
                 <th style={{ textAlign: 'left', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>User</th>
-                <th style={{ textAlign: 'right', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>Balance</th>
-                <th style={{ textAlign: 'center', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem', width: '2rem' }}>Action</th>
+                <th style={{ textAlign: 'right', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>{leaderboardSport ? 'Profit' : 'Balance'}</th>
+                <th style={{ textAlign: 'right', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>Avg CLV</th>
               </tr>
             </thead>
             <tbody>
-              {users.map((u) => (
-                <tr key={u.id}>
+              {leaderboardRows.map(({ id, name, value, clv }) => (
+                <tr key={id}>
                   <td style={{ padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)' }}>
-                    {u.display_name || u.username}
+                    {name}
                   </td>
                   <td style={{ padding: '0.25rem', textAlign: 'right', borderBottom: '1px solid var(--color-border-light)' }}>
-                    {u.current_balance.toFixed(2)}
+                    {value.toFixed(2)}
                   </td>
-                  <td style={{ padding: '0.25rem', textAlign: 'center', borderBottom: '1px solid var(--color-border-light)' }}>
-                    <button
-                      onClick={() => setDeleteConfirmUser(u)}
-                      style={{
-                        background: 'var(--color-danger)',
-                        color: 'var(--color-white)',
-                        border: 'none',
-                        borderRadius: '4px',
-                        padding: '0.25rem 0.5rem',
-                        cursor: 'pointer',
-                        fontSize: '1rem',
-                        width: '2rem',
-                        height: '2rem',
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center'
-                      }}
-                      title="Delete user"
-                    >
-                      <FiX />
-                    </button>
+                  <td style={{ padding: '0.25rem', textAlign: 'right', borderBottom: '1px solid var(--color-border-light)' }}>
+                    {clv ? formatClv(clv.avg_clv_points, clv.avg_clv_prob) : '—'}
                   </td>
                 </tr>
               ))}
@@ -918,6 +1284,91 @@ useEffect(() => {
         )}
       </section>
 
+      {currentUser && (
+        <section style={{ marginBottom: '2rem' }}>
+          <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center', marginBottom: '1rem' }}>
+            <button onClick={() => setShowLedger(!showLedger)}>
+              {showLedger ? 'Hide Ledger' : 'Show Ledger'}
+            </button>
+            <button onClick={() => setShowAnalytics(!showAnalytics)}>
+              {showAnalytics ? 'Hide Analytics' : 'Show Analytics'}
+            </button>
+            <button onClick={() => setShowActivity(!showActivity)}>
+              {showActivity ? 'Hide Activity' : 'Show Activity'}
+            </button>
+            {currentUser.role === 'ADMIN' && (
+              <button onClick={() => setShowAdmin(!showAdmin)}>
+                {showAdmin ? 'Hide Admin Console' : 'Show Admin Console'}
+              </button>
+            )}
+          </div>
+          {showLedger && (
+            <>
+              <h2>{activeMembership?.league ? `${activeMembership.league.name} Ledger` : 'Ledger'}</h2>
+              <Ledger
+                key={activeLeagueId ?? 'global'}
+                userId={currentUser.id}
+                username={currentUser.username}
+                leagueId={activeLeagueId}
+                leagueName={activeMembership?.league?.name ?? null}
+                isAdmin={currentUser.role === 'ADMIN'}
+                onSelectBet={showBetFromLedger}
+                onRepaired={() => refreshBalances(currentUser.id)}
+              />
+              {currentUser.role === 'ADMIN' && (
+                <ImportPanel
+                  key={activeLeagueId ?? 'global'}
+                  targets={bankrollRows.map((r) => ({ userId: r.id, name: r.name }))}
+                  leagueId={activeLeagueId}
+                  leagueName={activeMembership?.league?.name ?? null}
+                  onImported={() => {
+                    refreshBalances(currentUser.id)
+                    fetchMyBets(currentUser.id)
+                  }}
+                />
+              )}
+            </>
+          )}
+          {showAnalytics && activeStartingBalance != null && (
+            <>
+              <h2>Analytics</h2>
+              <AnalyticsDashboard bets={myBets} startingBalance={activeStartingBalance} />
+            </>
+          )}
+          {showActivity && (
+            <>
+              <h2>{activeMembership?.league ? `${activeMembership.league.name} Activity` : 'Activity'}</h2>
+              <ActivityFeed
+                key={activeLeagueId ?? 'global'}
+                userId={currentUser.id}
+                league={activeMembership?.league ?? null}
+                canManage={
+                  currentUser.role === 'ADMIN' || activeMembership?.league?.created_by === currentUser.id
+                }
+                games={games}
+                now={now}
+                refreshKey={betsChangedAt}
+                onTail={openBetSlip}
+                onLeagueChanged={() => loadMyLeagues(currentUser.id)}
+              />
+            </>
+          )}
+          {showAdmin && currentUser.role === 'ADMIN' && (
+            <>
+              <h2>Admin Console</h2>
+              <AdminConsole
+                currentUserId={currentUser.id}
+                onChanged={() => {
+                  refreshBalances(currentUser.id)
+                  fetchMyBets(currentUser.id)
+                  setLastGradedAt(Date.now())
+                }}
+              />
+            </>
+          )}
+        </section>
+      )}
+
       {currentUser ? (
         <section style={{ marginBottom: '2rem' }}>
           <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
@@ -927,20 +1378,29 @@ useEffect(() => {
             <button onClick={() => setShowPastBets(true)} style={{ fontWeight: showPastBets ? 'bold' : 'normal' }}>
               Past Bets
             </button>
+            <button onClick={syncScores} disabled={syncingScores}>
+              {syncingScores ? 'Updating...' : 'Update Scores'}
+            </button>
           </div>
-          <h2>{showPastBets ? 'Past Bets' : 'Active Bets'}</h2>
+          {scoresMessage && (
+            <p style={{ fontSize: '0.9rem', color: 'var(--color-text-secondary)' }}>
+              {scoresMessage}
+            </p>
+          )}
+          <h2>{showPastBets ? 'Past' : 'Active'} {getSport(sportKey).label} Bets</h2>
           {myBets.length === 0 && <p>No bets yet.</p>}
           {myBets.length > 0 && (() => {
-            const pendingBets = myBets.filter(b => b.status === 'PENDING')
-            const pastBets = myBets.filter(b => b.status !== 'PENDING')
+            const sportBets = myBets.filter(b => getBetSport(b) === sportKey)
+            const pendingBets = sportBets.filter(b => b.status === 'PENDING')
+            const pastBets = sportBets.filter(b => b.status !== 'PENDING')
             const sortedPendingBets = [...pendingBets].sort((a, b) => {
-              const aTime = games.find(g => g.homeTeam === a.game?.home_team && g.awayTeam === a.game?.away_team)?.commenceTime || ''
-              const bTime = games.find(g => g.homeTeam === b.game?.home_team && g.awayTeam === b.game?.away_team)?.commenceTime || ''
+              const aTime = getBetKickoff(a) || ''
+              const bTime = getBetKickoff(b) || ''
               return new Date(aTime).getTime() - new Date(bTime).getTime()
             })
             const sortedPastBets = [...pastBets].sort((a, b) => {
-              const aTime = games.find(g => g.homeTeam === a.game?.home_team && g.awayTeam === a.game?.away_team)?.commenceTime || ''
-              const bTime = games.find(g => g.homeTeam === b.game?.home_team && g.awayTeam === b.game?.away_team)?.commenceTime || ''
+              const aTime = getBetKickoff(a) || ''
+              const bTime = getBetKickoff(b) || ''
               return new Date(aTime).getTime() - new Date(bTime).getTime()
             })
             const betsToShow = showPastBets ? sortedPastBets : sortedPendingBets
@@ -957,97 +1417,145 @@ useEffect(() => {
                         <th style={{ textAlign: 'right', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>Stake</th>
                         <th style={{ textAlign: 'right', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>Line</th>
                         <th style={{ textAlign: 'right', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>Odds</th>
+                        <th style={{ textAlign: 'right', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>CLV</th>
                         <th style={{ textAlign: 'center', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>Status</th>
                         <th style={{ textAlign: 'center', borderBottom: '1px solid var(--color-border-medium)', padding: '0.25rem' }}>Action</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {betsToShow.map((b) => {
-                        const expl = getSpreadExplanation(b)
-                        const kickoffDate = games.find(g => g.homeTeam === b.game?.home_team && g.awayTeam === b.game?.away_team)?.commenceTime
-                        const displayDate = kickoffDate ? new Date(kickoffDate) : null
-                        const dayOfWeek = displayDate ? displayDate.toLocaleDateString('en-US', { weekday: 'short' }) : ''
-                        const gameTimeStr = displayDate ? `${dayOfWeek} ${displayDate.toLocaleDateString()} ${displayDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'TBD'
-                        
-                        if (infoForBetId === b.id) {
-                          return (
-                            <tr key={b.id}>
-                              <td colSpan={7} style={{ padding: '0.5rem', borderBottom: '1px solid var(--color-border-light)' }}>
-                                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '0.75rem' }}>
-                                  <div style={{ flex: 1, textAlign: 'left' }}>{expl}</div>
-                                  <div>
-                                    <button className="btn-ghost" onClick={() => { setInfoForBetId(null) }} aria-label="Close">×</button>
-                                  </div>
-                                </div>
-                              </td>
-                            </tr>
-                          )
-                        }
-
-                        return (
-                          <tr key={b.id}>
-                            <td style={{ padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)' }}>
-                              {gameTimeStr}
-                            </td>
-                            <td style={{ padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)' }}>
-                              {b.team_name} ({b.side})
-                            </td>
-                            <td style={{ padding: '0.25rem', textAlign: 'right', borderBottom: '1px solid var(--color-border-light)' }}>
-                              {b.stake.toFixed(2)}
-                            </td>
-                            <td style={{ padding: '0.25rem', textAlign: 'right', borderBottom: '1px solid var(--color-border-light)' }}>
-                              {b.spread_line > 0 ? `+${b.spread_line}` : b.spread_line}
-                            </td>
-                            <td style={{ padding: '0.25rem', textAlign: 'right', borderBottom: '1px solid var(--color-border-light)' }}>
-                              {b.odds_american > 0 ? `+${b.odds_american}` : b.odds_american}
-                            </td>
-                            <td style={{ padding: '0.25rem', textAlign: 'center', borderBottom: '1px solid var(--color-border-light)' }}>
-                              {b.status}
-                            </td>
-                            <td style={{ padding: '0.25rem', textAlign: 'center', borderBottom: '1px solid var(--color-border-light)' }}>
-                              {b.status === 'PENDING' ? (
-                                <div style={{ display: 'flex', gap: '0.25rem', justifyContent: 'center', alignItems: 'center' }}>
-                                  <button
-                                    disabled={settlingBetId === b.id}
-                                    onClick={() => handleSettleBet(b, 'WON')}
-                                  >
-                                    Won
-                                  </button>
-                                  <button
-                                    disabled={settlingBetId === b.id}
-                                    onClick={() => handleSettleBet(b, 'LOST')}
-                                  >
-                                    Lost
-                                  </button>
-                                  <button
-                                    disabled={settlingBetId === b.id}
-                                    onClick={() => handleSettleBet(b, 'PUSH')}
-                                  >
-                                    Push
-                                  </button>
-                                  <button
-                                    type="button"
-                                    className="info-button"
-                                    onClick={(e) => openInfoModal(e, expl, b.id)}
-                                    aria-label="Spread explanation"
-                                  >
-                                    <FiInfo size={16} />
-                                  </button>
-                                </div>
-                              ) : (
-                                <button
-                                  type="button"
-                                  className="info-button"
-                                  onClick={(e) => openInfoModal(e, expl, b.id)}
-                                  aria-label="Spread explanation"
-                                >
-                                  <FiInfo size={16} />
-                                </button>
-                              )}
+                      {groupBySlate(sportKey, betsToShow, getBetKickoff).map(({ key, label, items }) => (
+                        <Fragment key={key}>
+                          <tr>
+                            <td colSpan={8} style={{ padding: '0.5rem 0.25rem 0.25rem', fontWeight: 'bold', textAlign: 'left', borderBottom: '1px solid var(--color-border-medium)' }}>
+                              {label}
                             </td>
                           </tr>
-                        )
-                      })}
+                          {items.map((b) => {
+                            const expl = getBetExplanation(b)
+                            const kickoffDate = getBetKickoff(b)
+                            const displayDate = kickoffDate ? new Date(kickoffDate) : null
+                            const dayOfWeek = displayDate ? displayDate.toLocaleDateString('en-US', { weekday: 'short' }) : ''
+                            const gameTimeStr = displayDate ? `${dayOfWeek} ${displayDate.toLocaleDateString()} ${displayDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'TBD'
+                        
+                            if (infoForBetId === b.id) {
+                              return (
+                                <tr key={b.id} id={`bet-${b.id}`}>
+                                  <td colSpan={8} style={{ padding: '0.5rem', borderBottom: '1px solid var(--color-border-light)' }}>
+                                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '0.75rem' }}>
+                                      <div style={{ flex: 1, textAlign: 'left' }}>
+                                        {expl}
+                                        {b.status === 'CASHED_OUT' && b.payout != null && (
+                                          <div style={{ marginTop: '0.25rem', color: 'var(--color-text-secondary)' }}>
+                                            Cashed out for {b.payout.toFixed(2)}.
+                                          </div>
+                                        )}
+                                        {b.status === 'CANCELLED' && (
+                                          <div style={{ marginTop: '0.25rem', color: 'var(--color-text-secondary)' }}>
+                                            Cancelled before kickoff; the stake was refunded.
+                                          </div>
+                                        )}
+                                        {getFinalScore(b) && (
+                                          <div style={{ marginTop: '0.25rem', color: 'var(--color-text-secondary)' }}>
+                                            Final: {getFinalScore(b)}
+                                          </div>
+                                        )}
+                                      </div>
+                                      <div>
+                                        <button className="btn-ghost" onClick={() => { setInfoForBetId(null) }} aria-label="Close">×</button>
+                                      </div>
+                                    </div>
+                                  </td>
+                                </tr>
+                              )
+                            }
+
+                            return (
+                              <tr key={b.id} id={`bet-${b.id}`}>
+                                <td style={{ padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)' }}>
+                                  {gameTimeStr}
+                                </td>
+                                <td style={{ padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)' }}>
+                                  {b.team_name}{b.market && ` (${getMarketLabel(b.market, getBetSport(b))})`}
+                                </td>
+                                <td style={{ padding: '0.25rem', textAlign: 'right', borderBottom: '1px solid var(--color-border-light)' }}>
+                                  {b.stake.toFixed(2)}
+                                </td>
+                                <td style={{ padding: '0.25rem', textAlign: 'right', borderBottom: '1px solid var(--color-border-light)' }}>
+                                  {formatBetLine(b)}
+                                </td>
+                                <td style={{ padding: '0.25rem', textAlign: 'right', borderBottom: '1px solid var(--color-border-light)' }}>
+                                  {b.odds_american > 0 ? `+${b.odds_american}` : b.odds_american}
+                                  {b.bookmaker && (
+                                    <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>{b.bookmaker}</div>
+                                  )}
+                                </td>
+                                <td style={{ padding: '0.25rem', textAlign: 'right', borderBottom: '1px solid var(--color-border-light)' }}>
+                                  {formatClv(b.clv_points, b.clv_prob)}
+                                </td>
+                                <td style={{ padding: '0.25rem', textAlign: 'center', borderBottom: '1px solid var(--color-border-light)' }}>
+                                  {b.status.replace('_', ' ')}
+                                </td>
+                                <td style={{ padding: '0.25rem', textAlign: 'center', borderBottom: '1px solid var(--color-border-light)' }}>
+                                  {b.status === 'PENDING' ? (
+                                    <div style={{ display: 'flex', gap: '0.25rem', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap' }}>
+                                      {cashOutOffer?.betId === b.id ? (
+                                        cashOutOffer.amount == null ? (
+                                          <>
+                                            <span style={{ color: 'var(--color-text-secondary)' }}>No offer</span>
+                                            <button onClick={() => setCashOutOffer(null)}>OK</button>
+                                          </>
+                                        ) : (
+                                          <>
+                                            <button
+                                              disabled={settlingBetId === b.id}
+                                              onClick={() => handleConfirmCashOut(b, cashOutOffer.amount!)}
+                                            >
+                                              Take {cashOutOffer.amount.toFixed(2)}
+                                            </button>
+                                            <button onClick={() => setCashOutOffer(null)}>Keep</button>
+                                          </>
+                                        )
+                                      ) : (
+                                        <button
+                                          disabled={settlingBetId === b.id}
+                                          onClick={() => handleRequestCashOut(b)}
+                                        >
+                                          Cash Out
+                                        </button>
+                                      )}
+                                      {canCancelBet(b, now) && (
+                                        <button
+                                          disabled={settlingBetId === b.id}
+                                          onClick={() => handleCancelBet(b)}
+                                        >
+                                          Cancel
+                                        </button>
+                                      )}
+                                      <button
+                                        type="button"
+                                        className="info-button"
+                                        onClick={(e) => openInfoModal(e, expl, b.id)}
+                                        aria-label="Bet explanation"
+                                      >
+                                        <FiInfo size={16} />
+                                      </button>
+                                    </div>
+                                  ) : (
+                                    <button
+                                      type="button"
+                                      className="info-button"
+                                      onClick={(e) => openInfoModal(e, expl, b.id)}
+                                      aria-label="Bet explanation"
+                                    >
+                                      <FiInfo size={16} />
+                                    </button>
+                                  )}
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </Fragment>
+                      ))}
                     </tbody>
                   </table>
                 )}
@@ -1066,10 +1574,32 @@ useEffect(() => {
 
       <section style={{ marginBottom: '1.5rem' }}>
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
-          <h2>Upcoming NFL Spreads (DraftKings)</h2>
-          <button onClick={loadOdds} disabled={loadingOdds}>
-            {loadingOdds ? 'Refreshing...' : 'Refresh Odds'}
-          </button>
+          <div style={{ textAlign: 'left' }}>
+            <h2 style={{ marginBottom: 0 }}>Upcoming {getSport(sportKey).label} Odds</h2>
+            {oddsMeta && (
+              <div style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)' }}>
+                Updated {formatAge(getCacheAgeSeconds(oddsMeta.fetchedAt, now))}
+                {oddsMeta.quota.remaining != null && ` · ${oddsMeta.quota.remaining} API requests left`}
+                {oddsMeta.quota.used != null && ` (${oddsMeta.quota.used} used)`}
+              </div>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button onClick={toggleParlayMode} style={{ fontWeight: parlayMode ? 'bold' : 'normal' }}>
+              {parlayMode ? 'Straight Bets' : 'Build Parlay'}
+            </button>
+            <button onClick={loadOdds} disabled={loadingOdds}>
+              {loadingOdds ? 'Refreshing...' : 'Refresh Odds'}
+            </button>
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+          {SPORTS.map((s) => (
+            <button key={s.key} onClick={() => selectSport(s.key)} style={{ fontWeight: sportKey === s.key ? 'bold' : 'normal' }}>
+              {s.label}
+            </button>
+          ))}
         </div>
 
         {oddsError && (
@@ -1082,82 +1612,106 @@ useEffect(() => {
 
         <div style={{ marginTop: '0.75rem', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
           {(() => {
-            const bettedGameKeys = new Set(myBets.map(b => `${b.game?.away_team}-${b.game?.home_team}`))
-            const availableGames = games.filter(g => !bettedGameKeys.has(`${g.awayTeam}-${g.homeTeam}`))
-            return availableGames.map((g) => (
-            <div
-              key={g.id}
-              style={{
-                border: '1px solid var(--color-border-dark)',
-                borderRadius: 4,
-                padding: '0.5rem 0.75rem'
-              }}
-            >
-              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
-                <div>
-                  <strong>
-                    {g.awayTeam} @ {g.homeTeam}
-                  </strong>
-                  <div style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)' }}>
-                    {new Date(g.commenceTime).toLocaleString()}
-                  </div>
-                </div>
-                <div style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)' }}>{g.bookmaker}</div>
-              </div>
-
-              <div
-                style={{
-                  marginTop: '0.4rem',
-                  display: 'grid',
-                  gridTemplateColumns: '1fr 1fr',
-                  gap: '0.5rem',
-                  fontSize: '0.9rem'
-                }}
-              >
-                <div>
-                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem' }}>
-                    <div>{g.awaySpread?.teamName ?? g.awayTeam}</div>
-                    {g.awaySpread && (
-                      <button onClick={() => openBetSlip(g, 'AWAY')}>
-                        Bet {g.awayTeam}
-                      </button>
-                    )}
-                  </div>
-                  {g.awaySpread ? (
+            const marketRows: { market: MarketType; sides: [BetSide, BetSide] }[] = [
+              { market: 'spreads', sides: ['AWAY', 'HOME'] },
+              { market: 'h2h', sides: ['AWAY', 'HOME'] },
+              { market: 'totals', sides: ['OVER', 'UNDER'] }
+            ]
+            const bettedMarketKeys = new Set(
+              myBets.filter(b => b.bet_type === 'STRAIGHT').map(b => `${b.game?.away_team}-${b.game?.home_team}-${b.market}`)
+            )
+            const hasBet = (g: OddsGame, market: MarketType) => bettedMarketKeys.has(`${g.awayTeam}-${g.homeTeam}-${market}`)
+            const availableGames = games.filter(g => !hasKickedOff(g, now) && marketRows.some(r => !hasBet(g, r.market)))
+            return groupBySlate(sportKey, availableGames, (g) => g.commenceTime).map(({ key, label, items }) => (
+              <Fragment key={key}>
+                <h3 style={{ margin: '0.5rem 0 0', textAlign: 'left' }}>{label}</h3>
+                {items.map((g) => (
+                <div
+                  key={g.id}
+                  style={{
+                    border: '1px solid var(--color-border-dark)',
+                    borderRadius: 4,
+                    padding: '0.5rem 0.75rem'
+                  }}
+                >
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
                     <div>
-                      Spread {g.awaySpread.point > 0 ? `+${g.awaySpread.point}` : g.awaySpread.point} · Odds{' '}
-                      {g.awaySpread.price > 0 ? `+${g.awaySpread.price}` : g.awaySpread.price}
+                      <strong>
+                        {g.awayTeam} @ {g.homeTeam}
+                      </strong>
+                      <div style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)' }}>
+                        {new Date(g.commenceTime).toLocaleString()}
+                      </div>
                     </div>
-                  ) : (
-                    <div>No spread</div>
-                  )}
-                </div>
-                <div>
-                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem' }}>
-                    <div>{g.homeSpread?.teamName ?? g.homeTeam}</div>
-                    {g.homeSpread && (
-                      <button onClick={() => openBetSlip(g, 'HOME')}>
-                        Bet {g.homeTeam}
+                    <div style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)' }}>
+                      Best of {g.bookmakers.length} book{g.bookmakers.length === 1 ? '' : 's'}
+                      <button onClick={() => setDetailGame(g)} style={{ marginLeft: '0.5rem' }}>
+                        Details
                       </button>
-                    )}
-                  </div>
-                  {g.homeSpread ? (
-                    <div>
-                      Spread {g.homeSpread.point > 0 ? `+${g.homeSpread.point}` : g.homeSpread.point} · Odds{' '}
-                      {g.homeSpread.price > 0 ? `+${g.homeSpread.price}` : g.homeSpread.price}
                     </div>
-                  ) : (
-                    <div>No spread</div>
-                  )}
+                  </div>
+
+                  <div
+                    style={{
+                      marginTop: '0.4rem',
+                      display: 'grid',
+                      gridTemplateColumns: 'auto 1fr 1fr',
+                      gap: '0.5rem',
+                      alignItems: 'center',
+                      fontSize: '0.9rem'
+                    }}
+                  >
+                    <div />
+                    <div>{g.awayTeam}</div>
+                    <div>{g.homeTeam}</div>
+                    {marketRows.map(({ market, sides }) => (
+                      <div key={market} style={{ display: 'contents' }}>
+                        <div style={{ textAlign: 'left', color: 'var(--color-text-secondary)' }}>{getMarketLabel(market, g.sportKey)}</div>
+                        {sides.map((side) => {
+                          const outcome = getBestOutcome(g, market, side)
+                          if (!outcome) {
+                            return <div key={side}>No {getMarketLabel(market, g.sportKey).toLowerCase()}</div>
+                          }
+                          const bookLabel = (
+                            <div style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)' }}>
+                              {outcome.bookmakerTitle}
+                            </div>
+                          )
+                          if (hasBet(g, market)) {
+                            return <div key={side}>{formatOutcome(outcome)}{bookLabel}</div>
+                          }
+                          return (
+                            <div key={side}>
+                              <button onClick={() => openBetSlip(g, market, side)}>
+                                {formatOutcome(outcome)}
+                              </button>
+                              {bookLabel}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    ))}
+                  </div>
                 </div>
-              </div>
-            </div>
+                ))}
+              </Fragment>
             ))
           })()}
         </div>
       </section>
 
-      {selectedBet && (
+      {detailGame && (
+        <GameDetail
+          key={detailGame.id}
+          game={detailGame}
+          userId={currentUser?.id ?? null}
+          isAdmin={currentUser?.role === 'ADMIN'}
+          myBets={myBets}
+          onClose={() => setDetailGame(null)}
+        />
+      )}
+
+      {(selectedBet || (parlayMode && parlayLegs.length > 0)) && (
         <section
           style={{
             position: 'sticky',
@@ -1168,24 +1722,66 @@ useEffect(() => {
             marginTop: '1rem'
           }}
         >
-          <h3>Bet Slip</h3>
-          <p>
-            {selectedBet.game.awayTeam} @ {selectedBet.game.homeTeam}
-          </p>
-          <p>
-            Side{' '}
-            {selectedBet.side === 'HOME'
-              ? selectedBet.game.homeTeam
-              : selectedBet.game.awayTeam}{' '}
-            · Spread{' '}
-            {selectedBet.spread.point > 0
-              ? `+${selectedBet.spread.point}`
-              : selectedBet.spread.point}{' '}
-            · Odds{' '}
-            {selectedBet.spread.price > 0
-              ? `+${selectedBet.spread.price}`
-              : selectedBet.spread.price}
-          </p>
+          <h3>{parlayMode ? 'Parlay Slip' : 'Bet Slip'}</h3>
+          {selectedBet && (
+            <>
+              <p>
+                {selectedBet.game.awayTeam} @ {selectedBet.game.homeTeam}
+              </p>
+              <p>
+                {getMarketLabel(selectedBet.outcome.market, selectedBet.game.sportKey)} · {selectedBet.outcome.name}
+                {selectedBet.outcome.point != null && (
+                  <>
+                    {' '}
+                    {selectedBet.outcome.market === 'spreads'
+                      ? formatSigned(selectedBet.outcome.point)
+                      : selectedBet.outcome.point}
+                  </>
+                )}{' '}
+                · Odds {formatSigned(selectedBet.outcome.price)}
+              </p>
+              {renderBookSelect(selectedBet, (outcome) => setSelectedBet({ ...selectedBet, outcome }))}
+            </>
+          )}
+          {parlayMode && (
+            <>
+              {parlayLegs.map((leg) => (
+                <div
+                  key={leg.game.id}
+                  style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}
+                >
+                  <div style={{ textAlign: 'left' }}>
+                    {leg.game.awayTeam} @ {leg.game.homeTeam} · {getMarketLabel(leg.outcome.market, leg.game.sportKey)} {leg.outcome.name}
+                  </div>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                    {renderBookSelect(leg, (outcome) =>
+                      setParlayLegs((legs) => legs.map((l) => (l.game.id === leg.game.id ? { ...l, outcome } : l)))
+                    )}
+                    <button
+                      type="button"
+                      className="btn-ghost"
+                      onClick={() => setParlayLegs((legs) => legs.filter((l) => l.game.id !== leg.game.id))}
+                      aria-label="Remove leg"
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {(() => {
+                const prices = parlayLegs.map((leg) => leg.outcome.price)
+                const decimal = combineDecimalOdds(prices.map(americanToDecimal))
+                const stake = parseFloat(stakeInput)
+                return (
+                  <p style={{ marginTop: '0.5rem' }}>
+                    {parlayLegs.length} leg{parlayLegs.length === 1 ? '' : 's'} · Odds{' '}
+                    {parlayLegs.length > 1 ? formatSigned(combineAmericanOdds(prices)) : '—'} ({decimal.toFixed(2)})
+                    {!isNaN(stake) && stake > 0 && <> · Payout {(stake * decimal).toFixed(2)}</>}
+                  </p>
+                )
+              })()}
+            </>
+          )}
           <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem' }}>
             <input
               type="number"
@@ -1196,12 +1792,13 @@ useEffect(() => {
               onChange={(e) => setStakeInput(e.target.value)}
             />
             <button onClick={handlePlaceBet} disabled={placingBet || !currentUser}>
-              {placingBet ? 'Placing...' : 'Place Bet'}
+              {placingBet ? 'Placing...' : parlayMode ? 'Place Parlay' : 'Place Bet'}
             </button>
-            <button type="button" onClick={() => setSelectedBet(null)}>
+            <button type="button" onClick={() => { setSelectedBet(null); setParlayLegs([]) }}>
               Cancel
             </button>
           </div>
+          {renderStakeHelp()}
           {betError && (
             <p style={{ color: 'var(--color-error-text)', marginTop: '0.5rem' }}>
               {betError}
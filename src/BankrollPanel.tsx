@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import type { BankrollSettings } from './bankroll'
+import type { UnitType } from './types'
+
+type BankrollPanelProps = {
+  settings: BankrollSettings
+  onSave: (settings: BankrollSettings) => Promise<void>
+  onClose: () => void
+}
+
+const KELLY_FRACTIONS = [
+  { value: 1, label: 'Full Kelly' },
+  { value: 0.5, label: 'Half Kelly' },
+  { value: 0.25, label: 'Quarter Kelly' },
+  { value: 0.1, label: 'Tenth Kelly' }
+]
+
+function BankrollPanel({ settings, onSave, onClose }: BankrollPanelProps) {
+  const [unitType, setUnitType] = useState<UnitType>(settings.unit_type)
+  const [unitValue, setUnitValue] = useState<string>(String(settings.unit_value))
+  const [maxStakePct, setMaxStakePct] = useState<string>(String(settings.max_stake_pct))
+  const [kellyFraction, setKellyFraction] = useState<string>(settings.kelly_fraction == null ? '' : String(settings.kelly_fraction))
+  const [busy, setBusy] = useState<boolean>(false)
+  const [settingsError, setSettingsError] = useState<string>('')
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setSettingsError('')
+
+    const parsedUnit = parseFloat(unitValue)
+    const parsedMax = parseFloat(maxStakePct)
+    if (isNaN(parsedUnit) || parsedUnit <= 0) {
+      setSettingsError('Enter a unit size above zero.')
+      return
+    }
+    if (unitType === 'PERCENT' && parsedUnit > 100) {
+      setSettingsError('A unit can be at most 100% of your balance.')
+      return
+    }
+    if (isNaN(parsedMax) || parsedMax <= 0 || parsedMax > 100) {
+      setSettingsError('Enter a maximum stake between 0 and 100%.')
+      return
+    }
+
+    setBusy(true)
+    try {
+      await onSave({
+        unit_type: unitType,
+        unit_value: parsedUnit,
+        max_stake_pct: parsedMax,
+        kelly_fraction: kellyFraction ? parseFloat(kellyFraction) : null
+      })
+      onClose()
+    } catch (err: unknown) {
+      setSettingsError(err instanceof Error ? err.message : 'Failed to save bankroll rules')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={{ marginTop: '0.5rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap' }}>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+          Unit
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={unitValue}
+            onChange={(e) => setUnitValue(e.target.value)}
+            style={{ width: '5rem' }}
+          />
+          <select value={unitType} onChange={(e) => setUnitType(e.target.value as UnitType)}>
+            <option value="PERCENT">% of balance</option>
+            <option value="FIXED">dollars</option>
+          </select>
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+          Max stake
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.5"
+            value={maxStakePct}
+            onChange={(e) => setMaxStakePct(e.target.value)}
+            style={{ width: '5rem' }}
+          />
+          %
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+          Kelly
+          <select value={kellyFraction} onChange={(e) => setKellyFraction(e.target.value)}>
+            <option value="">Off</option>
+            {KELLY_FRACTIONS.map((k) => (
+              <option key={k.value} value={String(k.value)}>{k.label}</option>
+            ))}
+          </select>
+        </label>
+        <button type="submit" disabled={busy}>
+          {busy ? 'Saving...' : 'Save'}
+        </button>
+        <button type="button" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+
+      {settingsError && (
+        <p style={{ color: 'var(--color-error-text)', marginTop: '0.5rem' }}>
+          {settingsError}
+        </p>
+      )}
+    </form>
+  )
+}
+
+export default BankrollPanel
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import {
+  COMMENT_MAX_LENGTH,
+  COMMENT_REACTIONS,
+  deleteComment,
+  fetchGameComments,
+  isThreadLocked,
+  postComment,
+  toggleReaction
+} from './comments'
+import { formatSigned } from './oddsMath'
+import { useRealtime } from './useRealtime'
+import type { BetRow, GameCommentRow } from './types'
+
+type GameCommentsProps = {
+  // the games row, not the odds feed id
+  gameId: string
+  // null when signed out: the thread is read-only
+  userId: string | null
+  isAdmin: boolean
+  // the signed-in user's bets on this game, offered as receipts
+  receipts: BetRow[]
+}
+
+type Receipt = NonNullable<GameCommentRow['bet']>
+
+function formatReceipt(bet: Receipt): string {
+  const pick = bet.bet_type === 'PARLAY'
+    ? 'Parlay'
+    : bet.market === 'h2h'
+      ? `${bet.team_name} ML`
+      : bet.market === 'totals'
+        ? `${bet.team_name} ${bet.total_line}`
+        : `${bet.team_name} ${formatSigned(bet.spread_line ?? 0)}`
+  return `${pick} (${formatSigned(bet.odds_american)}) · ${Number(bet.stake).toFixed(2)} · ${bet.status}`
+}
+
+async function loadThread(gameId: string): Promise<[GameCommentRow[], boolean]> {
+  return Promise.all([fetchGameComments(gameId), isThreadLocked(gameId)])
+}
+
+function GameComments({ gameId, userId, isAdmin, receipts }: GameCommentsProps) {
+  const [comments, setComments] = useState<GameCommentRow[]>([])
+  const [locked, setLocked] = useState<boolean>(false)
+  const [loading, setLoading] = useState<boolean>(true)
+  const [commentError, setCommentError] = useState<string>('')
+  const [body, setBody] = useState<string>('')
+  const [receiptId, setReceiptId] = useState<string>('')
+  const [posting, setPosting] = useState<boolean>(false)
+
+  const reload = async () => {
+    try {
+      const [rows, isLocked] = await loadThread(gameId)
+      setComments(rows)
+      setLocked(isLocked)
+    } catch (err: unknown) {
+      setCommentError(err instanceof Error ? err.message : 'Failed to load comments')
+    }
+  }
+
+  // mounted once per game, so loading starts out true
+  useEffect(() => {
+    loadThread(gameId)
+      .then(([rows, isLocked]) => {
+        setComments(rows)
+        setLocked(isLocked)
+      })
+      .catch((err: unknown) => setCommentError(err instanceof Error ? err.message : 'Failed to load comments'))
+      .finally(() => setLoading(false))
+  }, [gameId])
+
+  // other players' comments and reactions, and settlement locking the thread
+  useRealtime(['game_comments', 'comment_reactions', 'bets'], reload, userId != null)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!userId || !body.trim()) return
+
+    setPosting(true)
+    setCommentError('')
+    try {
+      await postComment(gameId, userId, body, receiptId || null)
+      setBody('')
+      setReceiptId('')
+      await reload()
+    } catch (err: unknown) {
+      setCommentError(err instanceof Error ? err.message : 'Failed to post comment')
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const handleDelete = async (commentId: string) => {
+    setCommentError('')
+    try {
+      await deleteComment(commentId)
+      await reload()
+    } catch (err: unknown) {
+      setCommentError(err instanceof Error ? err.message : 'Failed to delete comment')
+    }
+  }
+
+  const handleReact = async (comment: GameCommentRow, emoji: string, reacted: boolean) => {
+    if (!userId) return
+
+    setCommentError('')
+    try {
+      await toggleReaction(comment.id, userId, emoji, reacted)
+      await reload()
+    } catch (err: unknown) {
+      setCommentError(err instanceof Error ? err.message : 'Failed to react')
+    }
+  }
+
+  const canWrite = userId != null && !locked
+
+  return (
+    <div style={{ textAlign: 'left', marginTop: '1rem' }}>
+      <h3 style={{ margin: '0.5rem 0' }}>Discussion</h3>
+      {locked && (
+        <p style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)', margin: '0 0 0.5rem' }}>
+          Every bet on this game has been settled, so the thread is read-only.
+        </p>
+      )}
+      {loading && <p>Loading comments...</p>}
+      {commentError && <p style={{ color: 'var(--color-error-text)' }}>{commentError}</p>}
+      {!loading && comments.length === 0 && !commentError && <p>No comments yet.</p>}
+
+      {comments.map((comment) => {
+        const mine = comment.user_id === userId
+        return (
+          <div key={comment.id} style={{ borderBottom: '1px solid var(--color-border-light)', padding: '0.5rem 0' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', fontSize: '0.85rem' }}>
+              <span>
+                <strong>{comment.user?.display_name || comment.user?.username || 'Unknown'}</strong>{' '}
+                <span style={{ color: 'var(--color-text-secondary)' }}>{new Date(comment.created_at).toLocaleString()}</span>
+              </span>
+              {((mine && !locked) || isAdmin) && (
+                <button type="button" className="btn-ghost" onClick={() => handleDelete(comment.id)}>
+                  Delete
+                </button>
+              )}
+            </div>
+            <div style={{ whiteSpace: 'pre-wrap', margin: '0.25rem 0' }}>{comment.body}</div>
+            {comment.bet && (
+              <div style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)' }}>
+                Receipt: {formatReceipt(comment.bet)}
+              </div>
+            )}
+            <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap', marginTop: '0.25rem' }}>
+              {COMMENT_REACTIONS.map((emoji) => {
+                const reactions = (comment.reactions || []).filter((r) => r.emoji === emoji)
+                const reacted = reactions.some((r) => r.user_id === userId)
+                if (reactions.length === 0 && !canWrite) return null
+                return (
+                  <button
+                    key={emoji}
+                    type="button"
+                    onClick={() => handleReact(comment, emoji, reacted)}
+                    disabled={!canWrite}
+                    style={{ fontWeight: reacted ? 'bold' : 'normal', padding: '0.1rem 0.4rem' }}
+                  >
+                    {emoji}{reactions.length > 0 && ` ${reactions.length}`}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+
+      {canWrite && (
+        <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginTop: '0.5rem' }}>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={COMMENT_MAX_LENGTH}
+            rows={3}
+            placeholder="Say something..."
+          />
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+            {receipts.length > 0 && (
+              <select value={receiptId} onChange={(e) => setReceiptId(e.target.value)}>
+                <option value="">No receipt</option>
+                {receipts.map((bet) => (
+                  <option key={bet.id} value={bet.id}>{formatReceipt(bet)}</option>
+                ))}
+              </select>
+            )}
+            <button type="submit" disabled={posting || !body.trim()}>
+              {posting ? 'Posting...' : 'Post'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
+
+export default GameComments
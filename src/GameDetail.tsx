@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react'
+import { getMarketOutcome } from './oddsApi'
+import type { BetSide, MarketType, OddsGame } from './oddsApi'
+import { getMarketLabel } from './sports'
+import { fetchGameHistory } from './oddsHistory'
+import type { GameHistory } from './oddsHistory'
+import { americanToImpliedProbability, formatSigned, impliedProbabilityToAmerican } from './oddsMath'
+import LineChart from './LineChart'
+import type { ChartMarker, ChartSeries } from './LineChart'
+import GameComments from './GameComments'
+import type { BetRow } from './types'
+
+type GameDetailProps = {
+  game: OddsGame
+  // null when signed out
+  userId: string | null
+  isAdmin: boolean
+  // the signed-in user's bets, for comment receipts
+  myBets: BetRow[]
+  onClose: () => void
+}
+
+type Quote = {
+  point: number | null
+  price: number
+}
+
+const CONSENSUS = 'consensus'
+const SIDE_COLORS = ['var(--color-chart-first)', 'var(--color-chart-second)']
+
+function getSides(market: MarketType): [BetSide, BetSide] {
+  return market === 'totals' ? ['OVER', 'UNDER'] : ['AWAY', 'HOME']
+}
+
+function getSideLabel(game: OddsGame, side: BetSide): string {
+  if (side === 'HOME') return game.homeTeam
+  if (side === 'AWAY') return game.awayTeam
+  return side === 'OVER' ? 'Over' : 'Under'
+}
+
+// Average of several books' quotes. Prices are averaged as probabilities so
+// that -105 and +105 come out near even money rather than at zero.
+function getConsensus(quotes: Quote[]): Quote | null {
+  if (quotes.length === 0) return null
+  const points = quotes.map((q) => q.point).filter((p): p is number => p != null)
+  const probability = quotes.reduce((sum, q) => sum + americanToImpliedProbability(q.price), 0) / quotes.length
+  return {
+    point: points.length > 0 ? Math.round((points.reduce((sum, p) => sum + p, 0) / points.length) * 10) / 10 : null,
+    price: impliedProbabilityToAmerican(probability)
+  }
+}
+
+function formatQuote(market: MarketType, quote: Quote | null): string {
+  if (!quote) return '—'
+  if (market === 'h2h' || quote.point == null) return formatSigned(quote.price)
+  const point = market === 'spreads' ? formatSigned(quote.point) : `${quote.point}`
+  return `${point} (${formatSigned(quote.price)})`
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+function GameDetail({ game, userId, isAdmin, myBets, onClose }: GameDetailProps) {
+  const [history, setHistory] = useState<GameHistory | null>(null)
+  const [loading, setLoading] = useState<boolean>(true)
+  const [historyError, setHistoryError] = useState<string>('')
+  const [market, setMarket] = useState<MarketType>('spreads')
+  const [book, setBook] = useState<string>(CONSENSUS)
+
+  // mounted once per game, so loading starts out true
+  useEffect(() => {
+    fetchGameHistory(game.id)
+      .then(setHistory)
+      .catch((err: unknown) => setHistoryError(err instanceof Error ? err.message : 'Failed to load line history'))
+      .finally(() => setLoading(false))
+  }, [game.id])
+
+  const sides = getSides(market)
+  const snapshots = (history?.snapshots || []).filter(
+    (s) => s.market === market && (book === CONSENSUS || s.bookmaker === book)
+  )
+  const bookOptions = [...new Set((history?.snapshots || []).map((s) => s.bookmaker))].sort()
+
+  // one quote per side per fetch; every book in a fetch shares its timestamp
+  const timeline = sides.map((side) => {
+    const byCapture = new Map<string, Quote[]>()
+    for (const s of snapshots.filter((s) => s.side === side)) {
+      const quotes = byCapture.get(s.captured_at) || []
+      quotes.push({ point: s.point, price: s.price })
+      byCapture.set(s.captured_at, quotes)
+    }
+    return [...byCapture.entries()]
+      .map(([capturedAt, quotes]) => ({ x: new Date(capturedAt).getTime(), quote: getConsensus(quotes) }))
+      .filter((entry): entry is { x: number; quote: Quote } => entry.quote != null)
+  })
+
+  const currentQuotes = sides.map((side) =>
+    getConsensus(
+      game.bookmakers
+        .filter((b) => book === CONSENSUS || b.key === book)
+        .map((b) => getMarketOutcome(b, market, side))
+        .filter((o) => o != null)
+        .map((o) => ({ point: o.point, price: o.price }))
+    )
+  )
+
+  const betMarkers = (history?.bets || []).filter((b) => b.market === market)
+
+  const toMarkers = (getY: (bet: (typeof betMarkers)[number]) => number | null): ChartMarker[] =>
+    betMarkers.flatMap((bet) => {
+      const y = getY(bet)
+      if (y == null) return []
+      const sideIndex = sides.indexOf(bet.side)
+      return [{
+        x: new Date(bet.placedAt).getTime(),
+        y,
+        color: SIDE_COLORS[Math.max(sideIndex, 0)],
+        label: `${bet.userName}: ${getSideLabel(game, bet.side)} ${formatQuote(market, { point: bet.point, price: bet.price })}${bet.parlayLeg ? ' (parlay leg)' : ''}`
+      }]
+    })
+
+  // both sides of a total share one number, so only the over is drawn
+  const lineSides = market === 'h2h' ? [] : market === 'totals' ? sides.slice(0, 1) : sides
+  const lineSeries: ChartSeries[] = lineSides.map((side, i) => ({
+    label: market === 'totals' ? 'Total' : getSideLabel(game, side),
+    color: SIDE_COLORS[i],
+    points: timeline[i].filter((t) => t.quote.point != null).map((t) => ({ x: t.x, y: t.quote.point! }))
+  }))
+
+  const priceSeries: ChartSeries[] = sides.map((side, i) => ({
+    label: getSideLabel(game, side),
+    color: SIDE_COLORS[i],
+    points: timeline[i].map((t) => ({ x: t.x, y: t.quote.price }))
+  }))
+
+  const gameId = history?.game?.id ?? null
+  const receipts = myBets.filter(
+    (bet) => bet.game_id === gameId || (bet.legs || []).some((leg) => leg.game_id === gameId)
+  )
+
+  const cellStyle = { padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)' }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'var(--color-modal-overlay)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: 'var(--color-white)',
+        color: 'var(--color-text-primary)',
+        padding: '1.5rem',
+        borderRadius: '8px',
+        maxWidth: '720px',
+        width: '95%',
+        maxHeight: '90vh',
+        overflowY: 'auto',
+        boxShadow: '0 4px 6px var(--color-shadow-light)'
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+          <div style={{ textAlign: 'left' }}>
+            <h2 style={{ margin: 0 }}>{game.awayTeam} @ {game.homeTeam}</h2>
+            <div style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)' }}>
+              {new Date(game.commenceTime).toLocaleString()}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            style={{ background: 'none', border: 'none', fontSize: '1.5rem', cursor: 'pointer', padding: 0, width: '2rem', height: '2rem' }}
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+          {(['spreads', 'h2h', 'totals'] as MarketType[]).map((m) => (
+            <button key={m} onClick={() => setMarket(m)} style={{ fontWeight: market === m ? 'bold' : 'normal' }}>
+              {getMarketLabel(m, game.sportKey)}
+            </button>
+          ))}
+          <select value={book} onChange={(e) => setBook(e.target.value)}>
+            <option value={CONSENSUS}>Consensus</option>
+            {bookOptions.map((key) => (
+              <option key={key} value={key}>{key}</option>
+            ))}
+          </select>
+        </div>
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem', marginBottom: '1rem' }}>
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: 'left', borderBottom: '1px solid var(--color-border-medium)' }}>Side</th>
+              <th style={{ ...cellStyle, textAlign: 'right', borderBottom: '1px solid var(--color-border-medium)' }}>Open</th>
+              <th style={{ ...cellStyle, textAlign: 'right', borderBottom: '1px solid var(--color-border-medium)' }}>Current</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sides.map((side, i) => (
+              <tr key={side}>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>{getSideLabel(game, side)}</td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{formatQuote(market, timeline[i][0]?.quote ?? null)}</td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{formatQuote(market, currentQuotes[i])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {loading && <p>Loading line history...</p>}
+        {historyError && <p style={{ color: 'var(--color-error-text)' }}>{historyError}</p>}
+        {!loading && !historyError && snapshots.length === 0 && (
+          <p style={{ color: 'var(--color-text-secondary)' }}>No line history recorded for this market yet.</p>
+        )}
+
+        {!loading && snapshots.length > 0 && (
+          <>
+            {lineSeries.length > 0 && (
+              <>
+                <h3 style={{ margin: '0.5rem 0' }}>{getMarketLabel(market, game.sportKey)} line</h3>
+                <LineChart
+                  series={lineSeries}
+                  markers={toMarkers((bet) => bet.point)}
+                  formatX={formatTime}
+                  formatY={(y) => (market === 'spreads' ? formatSigned(Math.round(y * 10) / 10) : (Math.round(y * 10) / 10).toString())}
+                />
+              </>
+            )}
+            <h3 style={{ margin: '0.5rem 0' }}>Price</h3>
+            <LineChart
+              series={priceSeries}
+              markers={toMarkers((bet) => bet.price)}
+              formatX={formatTime}
+              formatY={(y) => formatSigned(Math.round(y))}
+            />
+          </>
+        )}
+
+        {gameId && <GameComments gameId={gameId} userId={userId} isAdmin={isAdmin} receipts={receipts} />}
+      </div>
+    </div>
+  )
+}
+
+export default GameDetail
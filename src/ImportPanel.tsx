@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import type { ChangeEvent } from 'react'
+import { importRecords, parseImportFile, planImport } from './exportImport'
+import type { ImportPlan, ImportResult } from './exportImport'
+
+type ImportPanelProps = {
+  // the bankrolls that can receive an import, by user
+  targets: { userId: string; name: string }[]
+  leagueId: string | null
+  leagueName: string | null
+  onImported: () => void
+}
+
+const PROBLEM_LABELS = {
+  invalid: 'Invalid',
+  unknown_game: 'Unknown game',
+  conflict: 'Already imported'
+}
+
+// Reads an export, shows what would be imported and what wouldn't, and only
+// writes once the admin confirms.
+function ImportPanel({ targets, leagueId, leagueName, onImported }: ImportPanelProps) {
+  const [targetUserId, setTargetUserId] = useState<string>('')
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [busy, setBusy] = useState<boolean>(false)
+  const [importError, setImportError] = useState<string>('')
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file || !targetUserId) return
+
+    setBusy(true)
+    setImportError('')
+    setPlan(null)
+    setResult(null)
+    try {
+      setPlan(await planImport(targetUserId, leagueId, parseImportFile(await file.text())))
+    } catch (err: unknown) {
+      setImportError(err instanceof Error ? err.message : 'Failed to read file')
+    } finally {
+      setBusy(false)
+      e.target.value = ''
+    }
+  }
+
+  const handleImport = async () => {
+    if (!plan || !targetUserId) return
+
+    setBusy(true)
+    setImportError('')
+    try {
+      setResult(await importRecords(targetUserId, leagueId, plan))
+      setPlan(null)
+      onImported()
+    } catch (err: unknown) {
+      setImportError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const cellStyle = { padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)', textAlign: 'left' as const }
+
+  return (
+    <div style={{ marginTop: '1rem', textAlign: 'left' }}>
+      <h3 style={{ margin: '0.5rem 0' }}>Import</h3>
+      <p style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)', margin: '0 0 0.5rem' }}>
+        Imports a JSON export, or a bets or ledger CSV, into a user's {leagueName ?? 'global pool'} bankroll. Games are
+        matched by their odds feed id and must already exist here.
+      </p>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+        {/* duplicates are checked against the chosen bankroll, so a new one needs a new plan */}
+        <select
+          value={targetUserId}
+          onChange={(e) => {
+            setTargetUserId(e.target.value)
+            setPlan(null)
+          }}
+        >
+          <option value="">Import into...</option>
+          {targets.map((t) => (
+            <option key={t.userId} value={t.userId}>{t.name}</option>
+          ))}
+        </select>
+        <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} disabled={busy || !targetUserId} />
+      </div>
+
+      {importError && <p style={{ color: 'var(--color-error-text)' }}>{importError}</p>}
+
+      {plan && (
+        <>
+          <p>
+            Ready to import {plan.bets.length} bet{plan.bets.length === 1 ? '' : 's'} and {plan.transactions.length} ledger{' '}
+            {plan.transactions.length === 1 ? 'entry' : 'entries'}.
+            {plan.problems.length > 0 && ` ${plan.problems.length} row${plan.problems.length === 1 ? '' : 's'} will be left out:`}
+          </p>
+          {plan.problems.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem', marginBottom: '0.5rem' }}>
+              <tbody>
+                {plan.problems.map((problem, i) => (
+                  <tr key={i}>
+                    <td style={cellStyle}>{problem.record}</td>
+                    <td style={cellStyle}>{PROBLEM_LABELS[problem.kind]}</td>
+                    <td style={cellStyle}>{problem.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button
+              onClick={handleImport}
+              disabled={busy || !targetUserId || (plan.bets.length === 0 && plan.transactions.length === 0)}
+            >
+              {busy ? 'Importing...' : 'Import'}
+            </button>
+            <button onClick={() => setPlan(null)} disabled={busy}>Discard</button>
+          </div>
+        </>
+      )}
+
+      {result && (
+        <p>
+          Imported {result.bets_imported} bets and {result.transactions_imported} ledger entries
+          {(result.bets_skipped > 0 || result.transactions_skipped > 0) &&
+            `; skipped ${result.bets_skipped} bets and ${result.transactions_skipped} entries (duplicates and starting balances)`}
+          .
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default ImportPanel
@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import type { LeagueMemberRow } from './types'
+
+type LeaguePanelProps = {
+  leagues: LeagueMemberRow[]
+  activeLeagueId: string | null
+  onSelect: (leagueId: string | null) => void
+  onCreate: (name: string, startingBalance: number) => Promise<void>
+  onJoin: (inviteCode: string) => Promise<void>
+}
+
+function LeaguePanel({ leagues, activeLeagueId, onSelect, onCreate, onJoin }: LeaguePanelProps) {
+  const [mode, setMode] = useState<'create' | 'join' | null>(null)
+  const [name, setName] = useState<string>('')
+  const [bankroll, setBankroll] = useState<string>('1000')
+  const [inviteCode, setInviteCode] = useState<string>('')
+  const [busy, setBusy] = useState<boolean>(false)
+  const [leagueError, setLeagueError] = useState<string>('')
+
+  const activeLeague = leagues.find((m) => m.league_id === activeLeagueId)?.league ?? null
+
+  const closeForm = () => {
+    setMode(null)
+    setName('')
+    setBankroll('1000')
+    setInviteCode('')
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setLeagueError('')
+
+    if (mode === 'create') {
+      const parsedBankroll = parseFloat(bankroll)
+      if (!name.trim() || isNaN(parsedBankroll) || parsedBankroll <= 0) {
+        setLeagueError('Enter a league name and a starting bankroll.')
+        return
+      }
+    } else if (!inviteCode.trim()) {
+      setLeagueError('Enter an invite code.')
+      return
+    }
+
+    setBusy(true)
+    try {
+      if (mode === 'create') {
+        await onCreate(name.trim(), parseFloat(bankroll))
+      } else {
+        await onJoin(inviteCode.trim())
+      }
+      closeForm()
+    } catch (err: unknown) {
+      setLeagueError(err instanceof Error ? err.message : 'League request failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div style={{ marginTop: '0.5rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', justifyContent: 'center', flexWrap: 'wrap' }}>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+          League
+          <select
+            value={activeLeagueId ?? ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+          >
+            <option value="">Global pool</option>
+            {leagues.map((m) => (
+              <option key={m.league_id} value={m.league_id}>
+                {m.league?.name ?? 'League'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="button" onClick={() => setMode(mode === 'create' ? null : 'create')}>
+          Create League
+        </button>
+        <button type="button" onClick={() => setMode(mode === 'join' ? null : 'join')}>
+          Join League
+        </button>
+      </div>
+
+      {activeLeague && (
+        <p style={{ fontSize: '0.9rem', color: 'var(--color-text-secondary)', marginTop: '0.25rem' }}>
+          Invite code <strong>{activeLeague.invite_code}</strong> · Starting bankroll {activeLeague.starting_balance.toFixed(2)}
+        </p>
+      )}
+
+      {mode && (
+        <form onSubmit={handleSubmit} style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center', flexWrap: 'wrap', marginTop: '0.5rem' }}>
+          {mode === 'create' ? (
+            <>
+              <input
+                type="text"
+                placeholder="League name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <input
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Starting bankroll"
+                value={bankroll}
+                onChange={(e) => setBankroll(e.target.value)}
+              />
+            </>
+          ) : (
+            <input
+              type="text"
+              placeholder="Invite code"
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+            />
+          )}
+          <button type="submit" disabled={busy}>
+            {busy ? 'Saving...' : mode === 'create' ? 'Create' : 'Join'}
+          </button>
+          <button type="button" onClick={closeForm}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {leagueError && (
+        <p style={{ color: 'var(--color-error-text)', marginTop: '0.5rem' }}>
+          {leagueError}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default LeaguePanel
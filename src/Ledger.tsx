@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react'
+import { fetchLedger, reconcileBalances } from './ledger'
+import { betsToCsv, downloadFile, fetchExportBundle, transactionsToCsv } from './exportImport'
+import type { LedgerEntry } from './ledger'
+import { formatAmount } from './oddsMath'
+import type { ReconciliationRow } from './types'
+
+type LedgerProps = {
+  userId: string
+  username: string
+  leagueId: string | null
+  leagueName: string | null
+  isAdmin: boolean
+  onSelectBet: (betId: string) => void
+  onRepaired: () => void
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  INITIAL: 'Starting bankroll',
+  BET_PLACED: 'Bet placed',
+  BET_SETTLED: 'Bet settled',
+  BET_CASHED_OUT: 'Cashed out',
+  BET_CANCELLED: 'Bet cancelled',
+  RECONCILIATION: 'Reconciliation',
+  ADJUSTMENT: 'Adjustment',
+  BET_VOIDED: 'Bet voided',
+  BET_REGRADED: 'Bet regraded'
+}
+
+type ExportFormat = 'json' | 'bets-csv' | 'ledger-csv'
+
+function Ledger({ userId, username, leagueId, leagueName, isAdmin, onSelectBet, onRepaired }: LedgerProps) {
+  const [entries, setEntries] = useState<LedgerEntry[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [ledgerError, setLedgerError] = useState<string>('')
+  const [drift, setDrift] = useState<ReconciliationRow[] | null>(null)
+  const [reconciling, setReconciling] = useState<boolean>(false)
+  const [exporting, setExporting] = useState<boolean>(false)
+
+  // mounted once per bankroll, so loading starts out true
+  useEffect(() => {
+    fetchLedger(userId, leagueId)
+      .then(setEntries)
+      .catch((err: unknown) => setLedgerError(err instanceof Error ? err.message : 'Failed to load ledger'))
+      .finally(() => setLoading(false))
+  }, [userId, leagueId])
+
+  const runReconciliation = async (repair: boolean) => {
+    setReconciling(true)
+    setLedgerError('')
+    try {
+      const rows = await reconcileBalances(repair)
+      if (repair) {
+        setDrift([])
+        setEntries(await fetchLedger(userId, leagueId))
+        onRepaired()
+      } else {
+        setDrift(rows)
+      }
+    } catch (err: unknown) {
+      setLedgerError(err instanceof Error ? err.message : 'Failed to reconcile balances')
+    } finally {
+      setReconciling(false)
+    }
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true)
+    setLedgerError('')
+    try {
+      const bundle = await fetchExportBundle({ id: userId, username }, leagueId, leagueName)
+      const name = `${username}-${leagueName ?? 'global'}`.replace(/[^a-z0-9-]+/gi, '_')
+      if (format === 'json') {
+        downloadFile(`${name}.json`, JSON.stringify(bundle, null, 2), 'application/json')
+      } else if (format === 'bets-csv') {
+        downloadFile(`${name}-bets.csv`, betsToCsv(bundle.bets), 'text/csv')
+      } else {
+        downloadFile(`${name}-ledger.csv`, transactionsToCsv(bundle.transactions), 'text/csv')
+      }
+    } catch (err: unknown) {
+      setLedgerError(err instanceof Error ? err.message : 'Failed to export')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const cellStyle = { padding: '0.25rem', borderBottom: '1px solid var(--color-border-light)' }
+  const headStyle = { ...cellStyle, borderBottom: '1px solid var(--color-border-medium)' }
+
+  // newest first, like the bet lists
+  const rows = [...entries].reverse()
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center', marginBottom: '0.5rem' }}>
+        <button onClick={() => handleExport('json')} disabled={exporting}>Export JSON</button>
+        <button onClick={() => handleExport('bets-csv')} disabled={exporting}>Bets CSV</button>
+        <button onClick={() => handleExport('ledger-csv')} disabled={exporting}>Ledger CSV</button>
+      </div>
+      {loading && <p>Loading ledger...</p>}
+      {ledgerError && <p style={{ color: 'var(--color-error-text)' }}>{ledgerError}</p>}
+      {!loading && entries.length === 0 && !ledgerError && <p>No transactions yet.</p>}
+
+      {rows.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+          <thead>
+            <tr>
+              <th style={{ ...headStyle, textAlign: 'left' }}>Date</th>
+              <th style={{ ...headStyle, textAlign: 'left' }}>Entry</th>
+              <th style={{ ...headStyle, textAlign: 'right' }}>Amount</th>
+              <th style={{ ...headStyle, textAlign: 'right' }}>Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((entry) => (
+              <tr key={entry.id}>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>{new Date(entry.created_at).toLocaleString()}</td>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>
+                  {TYPE_LABELS[entry.type] ?? entry.type}
+                  {entry.bet_id && (
+                    <>
+                      {' · '}
+                      <button type="button" className="btn-ghost" onClick={() => onSelectBet(entry.bet_id!)}>
+                        {entry.bet ? (entry.bet.bet_type === 'PARLAY' ? 'Parlay' : entry.bet.team_name) : 'View bet'}
+                      </button>
+                    </>
+                  )}
+                  {entry.reason && (
+                    <div style={{ fontSize: '0.8rem', color: 'var(--color-text-secondary)' }}>{entry.reason}</div>
+                  )}
+                </td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{formatAmount(Number(entry.amount))}</td>
+                <td
+                  style={{ ...cellStyle, textAlign: 'right', color: entry.drifted ? 'var(--color-error-text)' : undefined }}
+                  title={entry.drifted ? `Recorded as ${Number(entry.balance_after).toFixed(2)}` : undefined}
+                >
+                  {entry.running_balance.toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {isAdmin && (
+        <div style={{ marginTop: '1rem', textAlign: 'left' }}>
+          <h3 style={{ margin: '0.5rem 0' }}>Reconciliation</h3>
+          <p style={{ fontSize: '0.85rem', color: 'var(--color-text-secondary)', margin: '0 0 0.5rem' }}>
+            Compares every bankroll with the sum of its ledger. Repairing adds a reconciliation entry for each
+            difference; balances are not changed.
+          </p>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button onClick={() => runReconciliation(false)} disabled={reconciling}>
+              {reconciling ? 'Checking...' : 'Check Balances'}
+            </button>
+            {drift && drift.length > 0 && (
+              <button onClick={() => runReconciliation(true)} disabled={reconciling}>
+                Repair {drift.length}
+              </button>
+            )}
+          </div>
+          {drift && drift.length === 0 && <p>Every balance matches its ledger.</p>}
+          {drift && drift.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem', marginTop: '0.5rem' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headStyle, textAlign: 'left' }}>User</th>
+                  <th style={{ ...headStyle, textAlign: 'left' }}>Bankroll</th>
+                  <th style={{ ...headStyle, textAlign: 'right' }}>Balance</th>
+                  <th style={{ ...headStyle, textAlign: 'right' }}>Ledger</th>
+                  <th style={{ ...headStyle, textAlign: 'right' }}>Drift</th>
+                </tr>
+              </thead>
+              <tbody>
+                {drift.map((row) => (
+                  <tr key={`${row.user_id}:${row.league_id ?? 'global'}`}>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>{row.username}</td>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>{row.league_name ?? 'Global pool'}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{Number(row.balance).toFixed(2)}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{Number(row.ledger_total).toFixed(2)}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{formatAmount(Number(row.drift))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Ledger
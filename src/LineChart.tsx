@@ -0,0 +1,131 @@
+export type ChartPoint = {
+  x: number
+  y: number
+}
+
+export type ChartSeries = {
+  label: string
+  color: string
+  points: ChartPoint[]
+}
+
+export type ChartMarker = ChartPoint & {
+  color: string
+  label: string
+}
+
+type LineChartProps = {
+  series: ChartSeries[]
+  markers?: ChartMarker[]
+  height?: number
+  formatX?: (x: number) => string
+  formatY?: (y: number) => string
+}
+
+const WIDTH = 600
+const PADDING = { top: 12, right: 16, bottom: 24, left: 48 }
+
+// Odds only change when a snapshot is taken, so lines hold their value until
+// the next point instead of interpolating between them.
+function toStepPath(points: ChartPoint[], scaleX: (x: number) => number, scaleY: (y: number) => number): string {
+  return points
+    .map((p, i) => {
+      const x = scaleX(p.x)
+      const y = scaleY(p.y)
+      if (i === 0) return `M ${x} ${y}`
+      return `H ${x} V ${y}`
+    })
+    .join(' ')
+}
+
+function LineChart({ series, markers = [], height = 200, formatX = String, formatY = String }: LineChartProps) {
+  const allPoints = [...series.flatMap((s) => s.points), ...markers]
+
+  if (allPoints.length === 0) {
+    return <p style={{ color: 'var(--color-text-secondary)' }}>No data to chart.</p>
+  }
+
+  const xs = allPoints.map((p) => p.x)
+  const ys = allPoints.map((p) => p.y)
+  const minX = Math.min(...xs)
+  const maxX = Math.max(...xs)
+  // pad the y range so flat lines and edge markers aren't drawn on the border
+  const yPad = Math.max((Math.max(...ys) - Math.min(...ys)) * 0.1, 0.5)
+  const minY = Math.min(...ys) - yPad
+  const maxY = Math.max(...ys) + yPad
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  const scaleX = (x: number) => PADDING.left + (maxX === minX ? plotWidth / 2 : ((x - minX) / (maxX - minX)) * plotWidth)
+  const scaleY = (y: number) => PADDING.top + ((maxY - y) / (maxY - minY)) * plotHeight
+
+  const yTicks = [minY + yPad, (minY + maxY) / 2, maxY - yPad]
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} style={{ width: '100%', height: 'auto' }} role="img">
+        {yTicks.map((tick, i) => (
+          <g key={i}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={scaleY(tick)}
+              y2={scaleY(tick)}
+              stroke="var(--color-chart-grid)"
+            />
+            <text x={PADDING.left - 6} y={scaleY(tick)} textAnchor="end" dominantBaseline="middle" fontSize={11} fill="var(--color-text-secondary)">
+              {formatY(tick)}
+            </text>
+          </g>
+        ))}
+
+        <text x={PADDING.left} y={height - 6} fontSize={11} fill="var(--color-text-secondary)">
+          {formatX(minX)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={height - 6} textAnchor="end" fontSize={11} fill="var(--color-text-secondary)">
+          {formatX(maxX)}
+        </text>
+
+        {series.map((s) => (
+          <g key={s.label}>
+            <path d={toStepPath(s.points, scaleX, scaleY)} fill="none" stroke={s.color} strokeWidth={2} />
+            {s.points.length === 1 && (
+              <circle cx={scaleX(s.points[0].x)} cy={scaleY(s.points[0].y)} r={3} fill={s.color} />
+            )}
+          </g>
+        ))}
+
+        {markers.map((m, i) => (
+          <g key={i}>
+            <circle
+              cx={scaleX(m.x)}
+              cy={scaleY(m.y)}
+              r={5}
+              fill="var(--color-white)"
+              stroke={m.color}
+              strokeWidth={2}
+            />
+            <title>{m.label}</title>
+          </g>
+        ))}
+      </svg>
+
+      <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center', fontSize: '0.85rem' }}>
+        {series.map((s) => (
+          <span key={s.label} style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+            <span style={{ width: 12, height: 3, background: s.color, display: 'inline-block' }} />
+            {s.label}
+          </span>
+        ))}
+        {markers.length > 0 && (
+          <span style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+            <span style={{ width: 8, height: 8, borderRadius: '50%', border: '2px solid var(--color-text-secondary)', display: 'inline-block' }} />
+            Bet placed
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LineChart
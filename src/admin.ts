@@ -0,0 +1,179 @@
+import { supabase } from './supabaseClient'
+import { GAME_SCORE_FIELDS } from './settlement'
+import type { AdminAuditRow, BetRow, GameRow, UserRole, UserRow } from './types'
+
+const AUDIT_LOG_SIZE = 100
+const ADMIN_LIST_SIZE = 50
+
+// A bet as listed in the admin console, from any of its owner's bankrolls.
+export type AdminBet = BetRow & {
+  league: { name: string } | null
+}
+
+// Every admin action, newest first.
+export async function fetchAuditLog(): Promise<AdminAuditRow[]> {
+  const { data, error } = await supabase
+    .from('admin_audit_log')
+    .select(
+      '*, admin:users!admin_audit_log_admin_id_fkey(username), target_user:users!admin_audit_log_target_user_id_fkey(username)'
+    )
+    .order('created_at', { ascending: false })
+    .limit(AUDIT_LOG_SIZE)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as AdminAuditRow[]) || []
+}
+
+// Every user, archived ones included, by name.
+export async function fetchAllUsers(): Promise<UserRow[]> {
+  const { data, error } = await supabase.from('users').select('*').order('username', { ascending: true })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as UserRow[]) || []
+}
+
+// A user's latest bets across the global pool and their leagues.
+export async function fetchUserBets(userId: string): Promise<AdminBet[]> {
+  const { data, error } = await supabase
+    .from('bets')
+    .select(`*, game:games(${GAME_SCORE_FIELDS}), legs:parlay_legs(*), league:leagues(name)`)
+    .eq('user_id', userId)
+    .order('placed_at', { ascending: false })
+    .limit(ADMIN_LIST_SIZE)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as AdminBet[]) || []
+}
+
+// Games that have kicked off, most recent first: the ones that can be given
+// a final score.
+export async function fetchStartedGames(): Promise<GameRow[]> {
+  const { data, error } = await supabase
+    .from('games')
+    .select('*')
+    .lte('kickoff_at', new Date().toISOString())
+    .order('kickoff_at', { ascending: false })
+    .limit(ADMIN_LIST_SIZE)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as GameRow[]) || []
+}
+
+export async function setUserRole(userId: string, role: UserRole, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_set_role', {
+    p_user_id: userId,
+    p_role: role,
+    p_reason: reason
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+// Hides the user from the leaderboards and locks them out, keeping their
+// history.
+// Hands a profile from before sign-in to whoever signed up with email.
+export async function linkUser(userId: string, email: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_link_user', {
+    p_user_id: userId,
+    p_email: email,
+    p_reason: reason
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+export async function archiveUser(userId: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_archive_user', {
+    p_user_id: userId,
+    p_reason: reason
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+export async function restoreUser(userId: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_restore_user', {
+    p_user_id: userId,
+    p_reason: reason
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+// Deletes an archived user and all their data for good. The username has to
+// be typed again to confirm.
+export async function purgeUser(userId: string, confirmUsername: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_purge_user', {
+    p_user_id: userId,
+    p_confirm_username: confirmUsername,
+    p_reason: reason
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+// Returns the bankroll's new balance.
+export async function adjustBalance(userId: string, leagueId: string | null, amount: number, reason: string): Promise<number> {
+  const { data, error } = await supabase.rpc('admin_adjust_balance', {
+    p_user_id: userId,
+    p_league_id: leagueId,
+    p_amount: amount,
+    p_reason: reason
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return Number(data)
+}
+
+export async function voidBet(betId: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_void_bet', {
+    p_bet_id: betId,
+    p_reason: reason
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+// Stores a final score by hand, reopening any bets already graded on the
+// game. Returns the number reopened; grading them again is up to the caller.
+export async function setFinalScore(gameId: string, homeScore: number, awayScore: number, reason: string): Promise<number> {
+  const { data, error } = await supabase.rpc('admin_set_final_score', {
+    p_game_id: gameId,
+    p_home_score: homeScore,
+    p_away_score: awayScore,
+    p_reason: reason
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as number | null) ?? 0
+}
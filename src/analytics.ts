@@ -0,0 +1,166 @@
+import { getBetKickoff, getBetSport } from './bets'
+import { getSport, groupBySlate } from './sports'
+import type { BetRow } from './types'
+
+export type PerformanceSummary = {
+  bets: number
+  won: number
+  lost: number
+  pushed: number
+  cashedOut: number
+  staked: number
+  profit: number
+  fairProfit: number
+  // profit per unit staked
+  roi: number | null
+  // wins over decided bets; pushes and cash-outs don't count either way
+  winRate: number | null
+  units: number
+}
+
+export type PerformanceSplit = PerformanceSummary & {
+  key: string
+  label: string
+}
+
+export type ProfitPoint = {
+  settledAt: number
+  profit: number
+  fairProfit: number
+}
+
+// Cancelled bets were refunded and never really played, so they are left out.
+const SETTLED_STATUSES = ['WON', 'LOST', 'PUSH', 'CASHED_OUT']
+
+export function getSettledBets(bets: BetRow[]): BetRow[] {
+  return bets.filter((b) => SETTLED_STATUSES.includes(b.status))
+}
+
+export function summarizeBets(bets: BetRow[], unitSize: number): PerformanceSummary {
+  const summary = bets.reduce(
+    (acc, b) => {
+      acc.bets++
+      if (b.status === 'WON') acc.won++
+      else if (b.status === 'LOST') acc.lost++
+      else if (b.status === 'PUSH') acc.pushed++
+      else if (b.status === 'CASHED_OUT') acc.cashedOut++
+      acc.staked += Number(b.stake)
+      acc.profit += Number(b.profit ?? 0)
+      acc.fairProfit += Number(b.fair_profit ?? 0)
+      return acc
+    },
+    { bets: 0, won: 0, lost: 0, pushed: 0, cashedOut: 0, staked: 0, profit: 0, fairProfit: 0 }
+  )
+
+  const decided = summary.won + summary.lost
+  return {
+    ...summary,
+    roi: summary.staked > 0 ? summary.profit / summary.staked : null,
+    winRate: decided > 0 ? summary.won / decided : null,
+    units: unitSize > 0 ? summary.profit / unitSize : 0
+  }
+}
+
+function splitBy(
+  bets: BetRow[],
+  unitSize: number,
+  getGroup: (bet: BetRow) => { key: string; label: string } | null
+): PerformanceSplit[] {
+  const groups = new Map<string, { label: string; bets: BetRow[] }>()
+  for (const bet of bets) {
+    const group = getGroup(bet)
+    if (!group) continue
+    const existing = groups.get(group.key)
+    if (existing) {
+      existing.bets.push(bet)
+    } else {
+      groups.set(group.key, { label: group.label, bets: [bet] })
+    }
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => ({ key, label: group.label, ...summarizeBets(group.bets, unitSize) }))
+}
+
+// On a spread the favorite is the side giving points; the price is near even
+// money either way. On the moneyline it's the side priced below even money.
+// Totals have no favorite and parlays combine both kinds, so neither counts,
+// and neither does a pick'em spread.
+export function splitByFavorite(bets: BetRow[], unitSize: number): PerformanceSplit[] {
+  return splitBy(bets, unitSize, (b) => {
+    if (b.bet_type !== 'STRAIGHT') return null
+
+    let favorite: boolean
+    if (b.market === 'spreads') {
+      if (b.spread_line == null || b.spread_line === 0) return null
+      favorite = b.spread_line < 0
+    } else if (b.market === 'h2h') {
+      favorite = b.odds_american < 0
+    } else {
+      return null
+    }
+
+    return favorite ? { key: '0', label: 'Favorite' } : { key: '1', label: 'Underdog' }
+  })
+}
+
+export function splitByHomeAway(bets: BetRow[], unitSize: number): PerformanceSplit[] {
+  return splitBy(bets, unitSize, (b) => {
+    if (b.side === 'HOME') return { key: '0', label: 'Home' }
+    if (b.side === 'AWAY') return { key: '1', label: 'Away' }
+    return null
+  })
+}
+
+const SPREAD_BUCKETS = [
+  { max: 3, label: '3 or less' },
+  { max: 7, label: '3.5 to 7' },
+  { max: 10, label: '7.5 to 10' },
+  { max: Infinity, label: 'More than 10' }
+]
+
+// Buckets by the size of the line, whichever side of it was taken.
+export function splitBySpreadSize(bets: BetRow[], unitSize: number): PerformanceSplit[] {
+  return splitBy(bets, unitSize, (b) => {
+    if (b.market !== 'spreads' || b.spread_line == null) return null
+    const size = Math.abs(b.spread_line)
+    const index = SPREAD_BUCKETS.findIndex((bucket) => size <= bucket.max)
+    return { key: String(index), label: SPREAD_BUCKETS[index].label }
+  })
+}
+
+export function splitByTeam(bets: BetRow[], unitSize: number): PerformanceSplit[] {
+  return splitBy(bets, unitSize, (b) => {
+    if (b.bet_type !== 'STRAIGHT' || b.market === 'totals') return null
+    return { key: b.team_name, label: b.team_name }
+  })
+}
+
+// NFL bets split by league week, other sports by game day. With several
+// sports mixed in, each slate is labelled with its sport.
+export function splitByWeek(bets: BetRow[], unitSize: number): PerformanceSplit[] {
+  const sports = [...new Set(bets.map(getBetSport))]
+  return sports.flatMap((sportKey) => {
+    const prefix = sports.length > 1 ? `${getSport(sportKey).label} ` : ''
+    return groupBySlate(sportKey, bets.filter((b) => getBetSport(b) === sportKey), getBetKickoff).map((slate) => ({
+      key: `${sportKey}:${slate.key}`,
+      label: `${prefix}${slate.label}`,
+      ...summarizeBets(slate.items, unitSize)
+    }))
+  })
+}
+
+// Running actual and fair profit, in the order bets were settled.
+export function getCumulativeProfit(bets: BetRow[]): ProfitPoint[] {
+  let profit = 0
+  let fairProfit = 0
+  return bets
+    .filter((b) => b.settled_at != null)
+    .sort((a, b) => a.settled_at!.localeCompare(b.settled_at!))
+    .map((b) => {
+      profit += Number(b.profit ?? 0)
+      fairProfit += Number(b.fair_profit ?? 0)
+      return { settledAt: new Date(b.settled_at!).getTime(), profit, fairProfit }
+    })
+}
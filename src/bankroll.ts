@@ -0,0 +1,100 @@
+import { supabase } from './supabaseClient'
+import { americanToDecimal } from './oddsMath'
+import type { UserRow } from './types'
+
+export type BankrollSettings = Pick<UserRow, 'unit_type' | 'unit_value' | 'max_stake_pct' | 'kelly_fraction'>
+
+export type StakeSuggestion = {
+  label: string
+  stake: number
+}
+
+function roundStake(n: number): number {
+  return Math.floor(n * 100) / 100
+}
+
+export function getUnitSize(settings: BankrollSettings, balance: number): number {
+  return settings.unit_type === 'FIXED'
+    ? Number(settings.unit_value)
+    : roundStake((balance * Number(settings.unit_value)) / 100)
+}
+
+export function getMaxStake(settings: BankrollSettings, balance: number): number {
+  return roundStake((balance * Number(settings.max_stake_pct)) / 100)
+}
+
+// Share of the bankroll the Kelly criterion stakes at these odds when the
+// bet wins with probability winProbability. Zero or less means no edge.
+export function getKellyFraction(winProbability: number, oddsAmerican: number): number {
+  const netOdds = americanToDecimal(oddsAmerican) - 1
+  return (netOdds * winProbability - (1 - winProbability)) / netOdds
+}
+
+// Full Kelly swings the bankroll hard, so the user's kelly_fraction scales it
+// down. Null when Kelly is off or the estimate shows no edge.
+export function getKellyStake(
+  settings: BankrollSettings,
+  balance: number,
+  winProbability: number,
+  oddsAmerican: number
+): number | null {
+  if (settings.kelly_fraction == null) return null
+  const fraction = getKellyFraction(winProbability, oddsAmerican)
+  if (fraction <= 0) return null
+  return roundStake(balance * fraction * Number(settings.kelly_fraction))
+}
+
+// One, two and three units, capped at the user's maximum stake.
+export function getUnitSuggestions(settings: BankrollSettings, balance: number): StakeSuggestion[] {
+  const unit = getUnitSize(settings, balance)
+  const maxStake = getMaxStake(settings, balance)
+  return [1, 2, 3]
+    .map((units) => ({ label: `${units}u`, stake: roundStake(unit * units) }))
+    .filter((s) => s.stake > 0 && s.stake <= maxStake)
+}
+
+// The user's own rules a stake breaks, as messages for the bet slip.
+// winProbability and fairProbability are only set when the user has given
+// an estimate and the line has a no-vig price.
+export function getStakeWarnings(
+  settings: BankrollSettings,
+  balance: number,
+  stake: number,
+  oddsAmerican: number,
+  winProbability: number | null,
+  fairProbability: number | null
+): string[] {
+  const warnings: string[] = []
+  const maxStake = getMaxStake(settings, balance)
+
+  if (stake > maxStake) {
+    warnings.push(`Stake is over your ${settings.max_stake_pct}% maximum (${maxStake.toFixed(2)}).`)
+  }
+
+  if (winProbability != null) {
+    if (fairProbability != null && winProbability <= fairProbability) {
+      warnings.push(
+        `Your ${(winProbability * 100).toFixed(1)}% estimate is no better than the no-vig line (${(fairProbability * 100).toFixed(1)}%).`
+      )
+    }
+
+    const kellyStake = getKellyStake(settings, balance, winProbability, oddsAmerican)
+    if (settings.kelly_fraction != null) {
+      if (kellyStake == null) {
+        warnings.push('Kelly stakes nothing: your estimate has no edge at this price.')
+      } else if (stake > kellyStake) {
+        warnings.push(`Stake is over your Kelly suggestion (${kellyStake.toFixed(2)}).`)
+      }
+    }
+  }
+
+  return warnings
+}
+
+export async function saveBankrollSettings(userId: string, settings: BankrollSettings): Promise<void> {
+  const { error } = await supabase.from('users').update(settings).eq('id', userId)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
@@ -0,0 +1,17 @@
+import { NFL } from './sports'
+import type { SportKey } from './sports'
+import type { BetRow } from './types'
+
+// A parlay is dated by its first leg to kick off.
+export function getBetKickoff(bet: BetRow): string | null {
+  if (bet.bet_type === 'PARLAY') {
+    const kickoffs = (bet.legs || []).map((leg) => leg.game?.kickoff_at).filter((k): k is string => !!k).sort()
+    return kickoffs[0] ?? null
+  }
+  return bet.game?.kickoff_at ?? null
+}
+
+// Parlays are single-sport, so a parlay's sport is its first leg's.
+export function getBetSport(bet: BetRow): SportKey {
+  return bet.game?.sport ?? bet.legs?.[0]?.game?.sport ?? NFL
+}
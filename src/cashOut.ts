@@ -0,0 +1,58 @@
+import { supabase } from './supabaseClient'
+import type { BetRow } from './types'
+
+// Only decides whether the Cancel button shows; cancel_bet enforces the
+// database's own app.cancel_grace_minutes, which should match.
+export const CANCEL_GRACE_MINUTES = Number(import.meta.env.VITE_CANCEL_GRACE_MINUTES ?? 5)
+
+// The current cash-out offer for one of the signed-in user's bets, or null
+// when there is no recent line to price it from (for a game underway, one
+// taken since kickoff).
+export async function fetchCashOutQuote(betId: string): Promise<number | null> {
+  const { data, error } = await supabase.rpc('cash_out_quote', { p_bet_id: betId })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data == null ? null : Number(data)
+}
+
+// Cashes a bet out at the quoted amount. The offer is priced again in the
+// database, and the call fails if it has dropped since it was shown.
+export async function cashOutBet(betId: string, quotedAmount: number): Promise<BetRow> {
+  const { data, error } = await supabase.rpc('cash_out_bet', {
+    p_bet_id: betId,
+    p_expected_amount: quotedAmount
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data as BetRow
+}
+
+// Voids a bet and refunds the stake.
+export async function cancelBet(betId: string): Promise<BetRow> {
+  const { data, error } = await supabase.rpc('cancel_bet', { p_bet_id: betId })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data as BetRow
+}
+
+// Whether a pending bet is still inside its grace window and none of its
+// games has kicked off.
+export function canCancelBet(bet: BetRow, now: number = Date.now()): boolean {
+  if (bet.status !== 'PENDING') return false
+  if (now - new Date(bet.placed_at).getTime() > CANCEL_GRACE_MINUTES * 60 * 1000) return false
+
+  const kickoffs = bet.bet_type === 'PARLAY'
+    ? (bet.legs || []).map((leg) => leg.game?.kickoff_at)
+    : [bet.game?.kickoff_at]
+
+  return kickoffs.every((k) => k != null && new Date(k).getTime() > now)
+}
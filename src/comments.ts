@@ -0,0 +1,65 @@
+import { supabase } from './supabaseClient'
+import type { GameCommentRow } from './types'
+
+// The reactions a comment can get; the database accepts no others.
+export const COMMENT_REACTIONS = ['🔥', '😂', '💀', '👀', '🧢', '💰']
+
+export const COMMENT_MAX_LENGTH = 1000
+
+// A game's thread, oldest first. A receipt the reader isn't allowed to see
+// yet (a bet hidden until kickoff) comes back as null.
+export async function fetchGameComments(gameId: string): Promise<GameCommentRow[]> {
+  const { data, error } = await supabase
+    .from('game_comments')
+    .select(
+      '*, user:users(username, display_name), bet:bets(bet_type, market, team_name, spread_line, total_line, odds_american, stake, status), reactions:comment_reactions(user_id, emoji)'
+    )
+    .eq('game_id', gameId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as GameCommentRow[]) || []
+}
+
+// Threads lock once the game is final and every bet on it is settled.
+export async function isThreadLocked(gameId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('game_thread_locked', { p_game_id: gameId })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data === true
+}
+
+export async function postComment(gameId: string, userId: string, body: string, betId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('game_comments')
+    .insert({ game_id: gameId, user_id: userId, body: body.trim(), bet_id: betId })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+export async function deleteComment(commentId: string): Promise<void> {
+  const { error } = await supabase.from('game_comments').delete().eq('id', commentId)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+// Adds the user's reaction, or takes it back if they've already reacted.
+export async function toggleReaction(commentId: string, userId: string, emoji: string, reacted: boolean): Promise<void> {
+  const { error } = reacted
+    ? await supabase.from('comment_reactions').delete().match({ comment_id: commentId, user_id: userId, emoji })
+    : await supabase.from('comment_reactions').insert({ comment_id: commentId, user_id: userId, emoji })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
@@ -1,7 +1,16 @@
 interface ImportMetaEnv {
     readonly VITE_SUPABASE_URL: string
     readonly VITE_SUPABASE_ANON_KEY: string
-    readonly VITE_ODDS_API_KEY: string
+    readonly VITE_ODDS_API_KEY?: string
+    // 'fixture' replays the recorded slate in src/fixtures instead of calling the Odds API
+    readonly VITE_ODDS_SOURCE?: 'api' | 'fixture'
+    // seconds cached odds are served before the API is called again; match
+    // app.odds_max_age_seconds in the database, which refuses bets on older odds
+    readonly VITE_ODDS_MAX_AGE_SECONDS?: string
+    // remaining monthly requests below which refreshes are blocked
+    readonly VITE_ODDS_MIN_QUOTA?: string
+    // minutes after placing a bet that it can still be cancelled
+    readonly VITE_CANCEL_GRACE_MINUTES?: string
   }
   
   interface ImportMeta {
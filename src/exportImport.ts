@@ -0,0 +1,512 @@
+import { supabase } from './supabaseClient'
+import type { SportKey } from './sports'
+import type { BetRow, GameRow, ParlayLegRow, TransactionRow } from './types'
+
+// Games are exported by their odds feed id, which is the same on every
+// instance, rather than by the local row id.
+export type ExportedGame = Pick<GameRow, 'external_game_id' | 'sport' | 'home_team' | 'away_team' | 'kickoff_at' | 'home_score' | 'away_score'>
+
+export type ExportedLeg = Omit<ParlayLegRow, 'id' | 'bet_id' | 'game_id' | 'game'> & {
+  game: ExportedGame | null
+}
+
+export type ExportedBet = Omit<BetRow, 'user_id' | 'league_id' | 'game_id' | 'game' | 'legs' | 'clv_points' | 'clv_prob'> & {
+  game: ExportedGame | null
+  legs: ExportedLeg[]
+}
+
+export type ExportedTransaction = Pick<TransactionRow, 'id' | 'bet_id' | 'type' | 'amount' | 'balance_after' | 'reason' | 'created_at'>
+
+export type ExportBundle = {
+  version: 1
+  exported_at: string
+  username: string
+  league: string | null
+  bets: ExportedBet[]
+  transactions: ExportedTransaction[]
+}
+
+export type ImportProblem = {
+  kind: 'invalid' | 'unknown_game' | 'conflict'
+  record: string
+  message: string
+}
+
+// What an import would write, after the rows with problems are set aside.
+// Bets and legs gain the local id of their game.
+export type ImportPlan = {
+  bets: (ExportedBet & { game_id: string | null; legs: (ExportedLeg & { game_id: string })[] })[]
+  transactions: ExportedTransaction[]
+  problems: ImportProblem[]
+}
+
+export type ImportResult = {
+  bets_imported: number
+  bets_skipped: number
+  transactions_imported: number
+  transactions_skipped: number
+}
+
+const GAME_EXPORT_FIELDS = 'external_game_id, sport, home_team, away_team, kickoff_at, home_score, away_score'
+
+const BET_STATUSES = ['PENDING', 'WON', 'LOST', 'PUSH', 'CASHED_OUT', 'CANCELLED']
+const LEG_STATUSES = ['PENDING', 'WON', 'LOST', 'PUSH']
+
+const BET_COLUMNS = [
+  'id', 'placed_at', 'settled_at', 'sport', 'external_game_id', 'home_team', 'away_team', 'kickoff_at',
+  'bet_type', 'market', 'side', 'team_name', 'spread_line', 'total_line', 'odds_american', 'bookmaker',
+  'stake', 'status', 'payout', 'profit', 'fair_profit', 'fair_payout',
+  'opposing_odds_american', 'fair_odds_american', 'devig_method', 'legs'
+] as const
+
+const TRANSACTION_COLUMNS = ['id', 'created_at', 'type', 'amount', 'balance_after', 'bet_id', 'reason'] as const
+
+type ParlayLegWithGame = Omit<ParlayLegRow, 'game'> & { game: ExportedGame | null }
+type BetWithGames = Omit<BetRow, 'game' | 'legs'> & { game: ExportedGame | null; legs: ParlayLegWithGame[] | null }
+
+function toExportedLeg(leg: ParlayLegWithGame): ExportedLeg {
+  return {
+    market: leg.market,
+    side: leg.side,
+    team_name: leg.team_name,
+    spread_line: leg.spread_line,
+    total_line: leg.total_line,
+    odds_american: leg.odds_american,
+    bookmaker: leg.bookmaker,
+    opposing_odds_american: leg.opposing_odds_american,
+    fair_odds_american: leg.fair_odds_american,
+    devig_method: leg.devig_method,
+    status: leg.status,
+    settled_at: leg.settled_at,
+    game: leg.game
+  }
+}
+
+// Leaves out the owner, bankroll and local game ids, which mean nothing
+// anywhere else, and closing line value, which is recomputed.
+function toExportedBet(bet: BetWithGames): ExportedBet {
+  return {
+    id: bet.id,
+    bet_type: bet.bet_type,
+    market: bet.market,
+    side: bet.side,
+    team_name: bet.team_name,
+    spread_line: bet.spread_line,
+    total_line: bet.total_line,
+    odds_american: bet.odds_american,
+    bookmaker: bet.bookmaker,
+    stake: bet.stake,
+    opposing_odds_american: bet.opposing_odds_american,
+    fair_odds_american: bet.fair_odds_american,
+    devig_method: bet.devig_method,
+    status: bet.status,
+    placed_at: bet.placed_at,
+    settled_at: bet.settled_at,
+    payout: bet.payout,
+    profit: bet.profit,
+    fair_profit: bet.fair_profit,
+    fair_payout: bet.fair_payout,
+    game: bet.game,
+    legs: (bet.legs || []).map(toExportedLeg)
+  }
+}
+
+// One bankroll's bets and ledger: the global pool when leagueId is null.
+export async function fetchExportBundle(user: { id: string; username: string }, leagueId: string | null, leagueName: string | null): Promise<ExportBundle> {
+  let betsQuery = supabase
+    .from('bets')
+    .select(`*, game:games(${GAME_EXPORT_FIELDS}), legs:parlay_legs(*, game:games(${GAME_EXPORT_FIELDS}))`)
+    .eq('user_id', user.id)
+  let transactionsQuery = supabase
+    .from('transactions')
+    .select('id, bet_id, type, amount, balance_after, reason, created_at')
+    .eq('user_id', user.id)
+
+  betsQuery = leagueId ? betsQuery.eq('league_id', leagueId) : betsQuery.is('league_id', null)
+  transactionsQuery = leagueId ? transactionsQuery.eq('league_id', leagueId) : transactionsQuery.is('league_id', null)
+
+  const { data: bets, error: betsError } = await betsQuery.order('placed_at', { ascending: true })
+  if (betsError) {
+    throw new Error(betsError.message)
+  }
+
+  const { data: transactions, error: transactionsError } = await transactionsQuery.order('created_at', { ascending: true })
+  if (transactionsError) {
+    throw new Error(transactionsError.message)
+  }
+
+  return {
+    version: 1,
+    exported_at: new Date().toISOString(),
+    username: user.username,
+    league: leagueName,
+    bets: ((bets as BetWithGames[]) || []).map(toExportedBet),
+    transactions: (transactions as ExportedTransaction[]) || []
+  }
+}
+
+function toCsvField(value: unknown): string {
+  if (value == null) return ''
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(columns: readonly string[], rows: Record<string, unknown>[]): string {
+  return [columns.join(','), ...rows.map((row) => columns.map((c) => toCsvField(row[c])).join(','))].join('\n')
+}
+
+// Straight bets carry their game in the row; parlays keep their legs as JSON
+// in the legs column.
+export function betsToCsv(bets: ExportedBet[]): string {
+  return toCsv(
+    BET_COLUMNS,
+    bets.map(({ game, legs, ...bet }) => ({
+      ...bet,
+      sport: game?.sport,
+      external_game_id: game?.external_game_id,
+      home_team: game?.home_team,
+      away_team: game?.away_team,
+      kickoff_at: game?.kickoff_at,
+      legs: legs.length > 0 ? legs : null
+    }))
+  )
+}
+
+export function transactionsToCsv(transactions: ExportedTransaction[]): string {
+  return toCsv(TRANSACTION_COLUMNS, transactions)
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Splits CSV text into rows of fields, honouring quoted fields with commas,
+// doubled quotes and line breaks.
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((f) => f !== ''))
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value == null || value === '') return null
+  const n = Number(value)
+  return isNaN(n) ? NaN : n
+}
+
+function toText(value: string | undefined): string | null {
+  return value == null || value === '' ? null : value
+}
+
+function betFromCsv(row: Record<string, string>): ExportedBet {
+  const externalId = toText(row.external_game_id)
+  return {
+    id: row.id,
+    bet_type: (row.bet_type || 'STRAIGHT') as ExportedBet['bet_type'],
+    market: toText(row.market) as ExportedBet['market'],
+    side: toText(row.side) as ExportedBet['side'],
+    team_name: row.team_name,
+    spread_line: toNumber(row.spread_line),
+    total_line: toNumber(row.total_line),
+    odds_american: toNumber(row.odds_american) as number,
+    bookmaker: toText(row.bookmaker),
+    stake: toNumber(row.stake) as number,
+    opposing_odds_american: toNumber(row.opposing_odds_american),
+    fair_odds_american: toNumber(row.fair_odds_american),
+    devig_method: toText(row.devig_method) as ExportedBet['devig_method'],
+    status: row.status,
+    placed_at: row.placed_at,
+    settled_at: toText(row.settled_at),
+    payout: toNumber(row.payout),
+    profit: toNumber(row.profit),
+    fair_profit: toNumber(row.fair_profit),
+    fair_payout: toNumber(row.fair_payout),
+    game: externalId
+      ? {
+          external_game_id: externalId,
+          sport: row.sport as SportKey,
+          home_team: row.home_team,
+          away_team: row.away_team,
+          kickoff_at: row.kickoff_at,
+          home_score: null,
+          away_score: null
+        }
+      : null,
+    legs: row.legs ? (JSON.parse(row.legs) as ExportedLeg[]) : []
+  }
+}
+
+function transactionFromCsv(row: Record<string, string>): ExportedTransaction {
+  return {
+    id: row.id,
+    bet_id: toText(row.bet_id),
+    type: row.type,
+    amount: toNumber(row.amount) as number,
+    balance_after: toNumber(row.balance_after) as number,
+    reason: toText(row.reason),
+    created_at: row.created_at
+  }
+}
+
+// Reads a JSON export, or a bets or ledger CSV, told apart by its columns.
+export function parseImportFile(text: string): Pick<ExportBundle, 'bets' | 'transactions'> {
+  const trimmed = text.trim()
+
+  if (trimmed.startsWith('{')) {
+    const bundle = JSON.parse(trimmed) as Partial<ExportBundle>
+    if (!Array.isArray(bundle.bets) || !Array.isArray(bundle.transactions)) {
+      throw new Error('This JSON file is not a betting history export.')
+    }
+    return { bets: bundle.bets, transactions: bundle.transactions }
+  }
+
+  const [header, ...rows] = parseCsv(trimmed)
+  if (!header) {
+    throw new Error('The file is empty.')
+  }
+
+  const records = rows.map((fields) => Object.fromEntries(header.map((column, i) => [column, fields[i] ?? ''])))
+
+  if (header.includes('odds_american')) {
+    return { bets: records.map(betFromCsv), transactions: [] }
+  }
+  if (header.includes('balance_after')) {
+    return { bets: [], transactions: records.map(transactionFromCsv) }
+  }
+
+  throw new Error('Unrecognised CSV: expected a bets or ledger export.')
+}
+
+// The first thing wrong with a selection (a straight bet or a parlay leg).
+function getSelectionError(selection: Pick<ExportedBet, 'market' | 'side' | 'spread_line' | 'total_line' | 'odds_american' | 'team_name'>): string | null {
+  const { market, side } = selection
+  if (!Number.isInteger(selection.odds_american) || selection.odds_american === 0) return 'odds must be a whole american price'
+  if (!selection.team_name) return 'team name is missing'
+  if (market === 'spreads' && (side === 'HOME' || side === 'AWAY') && selection.spread_line != null && !isNaN(selection.spread_line)) return null
+  if (market === 'h2h' && (side === 'HOME' || side === 'AWAY')) return null
+  if (market === 'totals' && (side === 'OVER' || side === 'UNDER') && selection.total_line != null && !isNaN(selection.total_line)) return null
+  return `${market ?? 'no market'} / ${side ?? 'no side'} is not a valid selection`
+}
+
+function getBetError(bet: ExportedBet): string | null {
+  if (bet.bet_type !== 'STRAIGHT' && bet.bet_type !== 'PARLAY') return `unknown bet type ${bet.bet_type}`
+  if (!BET_STATUSES.includes(bet.status)) return `unknown status ${bet.status}`
+  if (typeof bet.stake !== 'number' || isNaN(bet.stake) || bet.stake <= 0) return 'stake must be above zero'
+  if (!bet.placed_at || isNaN(new Date(bet.placed_at).getTime())) return 'placed_at is not a date'
+  if (bet.status !== 'PENDING' && (bet.payout == null || isNaN(bet.payout))) return 'settled bets need a payout'
+
+  if (bet.bet_type === 'STRAIGHT') {
+    if (!bet.game?.external_game_id) return 'no external game id'
+    return getSelectionError(bet)
+  }
+
+  if (bet.legs.length < 2) return 'a parlay needs at least two legs'
+  for (const leg of bet.legs) {
+    if (!leg.game?.external_game_id) return 'a leg has no external game id'
+    if (!LEG_STATUSES.includes(leg.status)) return `a leg has unknown status ${leg.status}`
+    const legError = getSelectionError(leg)
+    if (legError) return `a leg: ${legError}`
+  }
+  return null
+}
+
+function getTransactionError(transaction: ExportedTransaction): string | null {
+  if (!transaction.type) return 'type is missing'
+  if (typeof transaction.amount !== 'number' || isNaN(transaction.amount)) return 'amount is not a number'
+  if (!transaction.created_at || isNaN(new Date(transaction.created_at).getTime())) return 'created_at is not a date'
+  return null
+}
+
+function describeBet(bet: ExportedBet, index: number): string {
+  return `Bet ${index + 1} (${bet.team_name || 'unnamed'})`
+}
+
+// Ids of the rows in one bankroll that match the given exported ids, either
+// their own or the one they were imported under.
+async function findImportedIds(
+  table: 'bets' | 'transactions',
+  userId: string,
+  leagueId: string | null,
+  ids: string[]
+): Promise<Set<string>> {
+  const found = new Set<string>()
+  if (ids.length === 0) return found
+
+  const list = ids.join(',')
+  let query = supabase
+    .from(table)
+    .select('id, source_id')
+    .eq('user_id', userId)
+    .or(`id.in.(${list}),source_id.in.(${list})`)
+  query = leagueId ? query.eq('league_id', leagueId) : query.is('league_id', null)
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  for (const row of (data as { id: string; source_id: string | null }[]) || []) {
+    found.add(row.id)
+    if (row.source_id) found.add(row.source_id)
+  }
+  return found
+}
+
+// Checks every row, maps games to local rows by external game id and looks
+// for rows already in the target bankroll. Nothing is written; rows with a
+// problem are left out of the plan and reported instead.
+export async function planImport(
+  userId: string,
+  leagueId: string | null,
+  records: Pick<ExportBundle, 'bets' | 'transactions'>
+): Promise<ImportPlan> {
+  const problems: ImportProblem[] = []
+
+  const validBets = records.bets.filter((bet, i) => {
+    const error = getBetError(bet)
+    if (error) problems.push({ kind: 'invalid', record: describeBet(bet, i), message: error })
+    return !error
+  })
+
+  const externalIds = [
+    ...new Set(validBets.flatMap((b) => [b.game, ...b.legs.map((l) => l.game)]).map((g) => g?.external_game_id).filter((id): id is string => !!id))
+  ]
+  const games = new Map<string, Pick<GameRow, 'id' | 'sport' | 'home_team' | 'away_team'>>()
+  if (externalIds.length > 0) {
+    const { data, error } = await supabase
+      .from('games')
+      .select('id, external_game_id, sport, home_team, away_team')
+      .in('external_game_id', externalIds)
+    if (error) {
+      throw new Error(error.message)
+    }
+    for (const game of (data as GameRow[]) || []) {
+      games.set(game.external_game_id!, game)
+    }
+  }
+
+  // a game is only a match if the teams agree too
+  const resolveGame = (game: ExportedGame | null): string | null => {
+    const local = game?.external_game_id ? games.get(game.external_game_id) : undefined
+    if (!local) return null
+    if (game!.home_team && game!.away_team && (local.home_team !== game!.home_team || local.away_team !== game!.away_team)) return null
+    return local.id
+  }
+
+  const betIds = validBets.map((b) => b.id).filter((id): id is string => !!id)
+  const existingBetIds = await findImportedIds('bets', userId, leagueId, betIds)
+
+  const plannedBets: ImportPlan['bets'] = []
+  const droppedBetIds = new Set<string>()
+
+  records.bets.forEach((bet, i) => {
+    if (!validBets.includes(bet)) {
+      if (bet.id) droppedBetIds.add(bet.id)
+      return
+    }
+
+    if (bet.id && existingBetIds.has(bet.id)) {
+      problems.push({ kind: 'conflict', record: describeBet(bet, i), message: 'this bet is already in this bankroll' })
+      return
+    }
+
+    const gameId = bet.bet_type === 'STRAIGHT' ? resolveGame(bet.game) : null
+    const legGameIds = bet.legs.map((leg) => resolveGame(leg.game))
+    if ((bet.bet_type === 'STRAIGHT' && !gameId) || legGameIds.some((id) => !id)) {
+      const missing = [bet.game, ...bet.legs.map((l) => l.game)].filter((g) => g && !resolveGame(g))
+      problems.push({
+        kind: 'unknown_game',
+        record: describeBet(bet, i),
+        message: `no matching game for ${missing.map((g) => `${g!.away_team} @ ${g!.home_team} (${g!.external_game_id})`).join(', ')}`
+      })
+      if (bet.id) droppedBetIds.add(bet.id)
+      return
+    }
+
+    plannedBets.push({
+      ...bet,
+      game_id: gameId,
+      legs: bet.legs.map((leg, j) => ({ ...leg, game_id: legGameIds[j]! }))
+    })
+  })
+
+  const transactionIds = records.transactions.map((t) => t.id).filter((id): id is string => !!id)
+  const existingTransactionIds = await findImportedIds('transactions', userId, leagueId, transactionIds)
+
+  const plannedTransactions = records.transactions.filter((transaction, i) => {
+    const record = `Ledger entry ${i + 1} (${transaction.type || 'untyped'})`
+    const error = getTransactionError(transaction)
+    if (error) {
+      problems.push({ kind: 'invalid', record, message: error })
+      return false
+    }
+    if (transaction.id && existingTransactionIds.has(transaction.id)) {
+      problems.push({ kind: 'conflict', record, message: 'this entry is already in this bankroll' })
+      return false
+    }
+    // money for a bet that isn't coming along would leave the ledger unexplained
+    if (transaction.bet_id && droppedBetIds.has(transaction.bet_id)) {
+      problems.push({ kind: 'invalid', record, message: 'its bet could not be imported' })
+      return false
+    }
+    return true
+  })
+
+  return { bets: plannedBets, transactions: plannedTransactions, problems }
+}
+
+// Writes a plan into a user's bankroll. Admins only.
+export async function importRecords(userId: string, leagueId: string | null, plan: ImportPlan): Promise<ImportResult> {
+  const { data, error } = await supabase.rpc('import_records', {
+    p_user_id: userId,
+    p_league_id: leagueId,
+    p_bets: plan.bets,
+    p_transactions: plan.transactions
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data as ImportResult
+}
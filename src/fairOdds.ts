@@ -0,0 +1,81 @@
+import { americanToImpliedProbability, impliedProbabilityToAmerican } from './oddsMath'
+
+// Ways of taking the bookmaker's margin (the vig) out of a two-way market.
+// The implied probabilities of both sides add up to more than 1; each method
+// spreads that excess differently.
+export type DevigMethod = 'multiplicative' | 'additive' | 'power' | 'shin'
+
+export const DEVIG_METHODS: { key: DevigMethod; label: string }[] = [
+  { key: 'multiplicative', label: 'Multiplicative' },
+  { key: 'additive', label: 'Additive' },
+  { key: 'power', label: 'Power' },
+  { key: 'shin', label: 'Shin' }
+]
+
+export const DEFAULT_DEVIG_METHOD: DevigMethod = 'multiplicative'
+
+// Finds x in [low, high] where f(x) = 0, for f increasing in x.
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (f(mid) > 0) {
+      high = mid
+    } else {
+      low = mid
+    }
+  }
+  return (low + high) / 2
+}
+
+// Scales every side down in proportion to its probability.
+function devigMultiplicative(probs: number[]): number[] {
+  const total = probs.reduce((sum, p) => sum + p, 0)
+  return probs.map((p) => p / total)
+}
+
+// Takes the same amount off every side.
+function devigAdditive(probs: number[]): number[] {
+  const excess = (probs.reduce((sum, p) => sum + p, 0) - 1) / probs.length
+  return probs.map((p) => Math.max(p - excess, 0.001))
+}
+
+// Raises every side to the power k that makes them sum to 1, which takes
+// relatively more off longshots.
+function devigPower(probs: number[]): number[] {
+  const k = bisect((k) => 1 - probs.reduce((sum, p) => sum + p ** k, 0), 0.01, 100)
+  return probs.map((p) => p ** k)
+}
+
+// Shin's model: the margin protects the book against a share z of bettors
+// with inside information, which also weighs most on longshots.
+function devigShin(probs: number[]): number[] {
+  const total = probs.reduce((sum, p) => sum + p, 0)
+  const shin = (z: number) =>
+    probs.map((p) => (Math.sqrt(z * z + 4 * (1 - z) * ((p * p) / total)) - z) / (2 * (1 - z)))
+  const z = bisect((z) => 1 - shin(z).reduce((sum, p) => sum + p, 0), 0, 0.99)
+  return shin(z)
+}
+
+// No-vig probabilities of every side of a market, from their prices.
+export function devigProbabilities(prices: number[], method: DevigMethod): number[] {
+  const probs = prices.map(americanToImpliedProbability)
+  // a market with no margin (or a negative one) has nothing to remove
+  if (probs.reduce((sum, p) => sum + p, 0) <= 1) return devigMultiplicative(probs)
+
+  switch (method) {
+    case 'additive':
+      return devigAdditive(probs)
+    case 'power':
+      return devigPower(probs)
+    case 'shin':
+      return devigShin(probs)
+    default:
+      return devigMultiplicative(probs)
+  }
+}
+
+// The no-vig american price of a side, given the price of the side opposite.
+export function getFairOdds(price: number, opposingPrice: number, method: DevigMethod): number {
+  const [fairProbability] = devigProbabilities([price, opposingPrice], method)
+  return impliedProbabilityToAmerican(fairProbability)
+}
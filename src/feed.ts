@@ -0,0 +1,47 @@
+import { supabase } from './supabaseClient'
+import { GAME_SCORE_FIELDS } from './settlement'
+import type { BetRow, FeedVisibility, GameInfo, LeagueRow, UserRow } from './types'
+
+const FEED_SIZE = 50
+
+// A bet in the activity feed, with who placed it and the feed's game id so
+// it can be matched to the odds on screen.
+export type FeedBet = Omit<BetRow, 'game'> & {
+  game: (GameInfo & { external_game_id: string | null }) | null
+  user: Pick<UserRow, 'username' | 'display_name'> | null
+}
+
+// Other players' latest bets in one bankroll (a league, or the global pool).
+// Which bets come back is up to the bets policy: a league that hides bets
+// until kickoff only returns the ones whose games have started.
+export async function fetchActivityFeed(userId: string, leagueId: string | null): Promise<FeedBet[]> {
+  let query = supabase
+    .from('bets')
+    .select(
+      `*, user:users(username, display_name), game:games(${GAME_SCORE_FIELDS}, external_game_id), legs:parlay_legs(*, game:games(${GAME_SCORE_FIELDS}))`
+    )
+    .neq('user_id', userId)
+
+  query = leagueId ? query.eq('league_id', leagueId) : query.is('league_id', null)
+
+  const { data, error } = await query.order('placed_at', { ascending: false }).limit(FEED_SIZE)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as FeedBet[]) || []
+}
+
+export async function setFeedVisibility(leagueId: string, visibility: FeedVisibility): Promise<LeagueRow> {
+  const { data, error } = await supabase.rpc('set_feed_visibility', {
+    p_league_id: leagueId,
+    p_visibility: visibility
+  })
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Failed to update feed visibility')
+  }
+
+  return data as LeagueRow
+}
@@ -0,0 +1,72 @@
+import { parseOdds, parseScores } from './oddsApi'
+import type { RawOddsGame, RawScoresGame } from './oddsApi'
+import type { OddsProvider } from './oddsProvider'
+import { NFL } from './sports'
+
+// A recorded slate: successive /odds responses in the order they were fetched.
+export type OddsFixture = {
+  frames: {
+    fetched_at: string
+    games: RawOddsGame[]
+  }[]
+}
+
+function shiftTime(iso: string | undefined, offsetMs: number): string | undefined {
+  return iso ? new Date(new Date(iso).getTime() + offsetMs).toISOString() : iso
+}
+
+function shiftGame(game: RawOddsGame, offsetMs: number): RawOddsGame {
+  return {
+    ...game,
+    commence_time: shiftTime(game.commence_time, offsetMs) ?? game.commence_time,
+    bookmakers: (game.bookmakers || []).map((book) => ({
+      ...book,
+      last_update: shiftTime(book.last_update, offsetMs),
+      markets: (book.markets || []).map((market) => ({
+        ...market,
+        last_update: shiftTime(market.last_update, offsetMs)
+      }))
+    }))
+  }
+}
+
+// Replays src/fixtures/nflOdds.json one frame per fetch, holding on the last
+// frame once the recording runs out, so every run sees the same line
+// movement in the same order. Kickoffs are moved so the first frame was
+// fetched at `startedAt`, which keeps the slate bettable. Scores are served
+// as recorded. Only an NFL slate is recorded; other sports come back empty.
+export function createFixtureProvider(startedAt: number = Date.now()): OddsProvider {
+  let cursor = 0
+
+  return {
+    name: 'Recorded fixtures',
+
+    async fetchOdds(sportKey) {
+      if (sportKey !== NFL) {
+        return { games: [], quota: { remaining: null, used: null } }
+      }
+
+      const fixture = await import('./fixtures/nflOdds.json')
+      const { frames } = fixture.default as OddsFixture
+      if (frames.length === 0) {
+        throw new Error('The odds fixture has no frames')
+      }
+
+      const frame = frames[Math.min(cursor, frames.length - 1)]
+      cursor++
+
+      const offsetMs = startedAt - new Date(frames[0].fetched_at).getTime()
+      return {
+        games: parseOdds(frame.games.map((game) => shiftGame(game, offsetMs)), sportKey),
+        quota: { remaining: null, used: null }
+      }
+    },
+
+    async fetchScores(sportKey) {
+      if (sportKey !== NFL) return []
+
+      const fixture = await import('./fixtures/nflScores.json')
+      return parseScores(fixture.default as RawScoresGame[])
+    }
+  }
+}
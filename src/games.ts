@@ -0,0 +1,101 @@
+import { supabase } from './supabaseClient'
+import { getNflWeek } from './nflCalendar'
+import type { OddsGame } from './oddsApi'
+import { getGameCalendar, NFL } from './sports'
+import type { GameRow } from './types'
+
+// Whether the signed-in user may write games rows and the odds feeds
+// (admins only). Everyone else only reads what they recorded.
+export async function isFeedWriter(): Promise<boolean> {
+  const { data, error } = await supabase.rpc('is_feed_writer')
+  return !error && data === true
+}
+
+// Returns the games row for an odds feed game. Rows are created when an
+// admin's odds load is recorded, so a game missing here can't be bet on yet.
+export async function findGameInDb(game: OddsGame): Promise<GameRow> {
+  const { data, error } = await supabase
+    .from('games')
+    .select('*')
+    .eq('external_game_id', game.id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  if (!data) {
+    throw new Error(`${game.awayTeam} @ ${game.homeTeam} hasn't been recorded yet, so it can't be bet on. Try again shortly.`)
+  }
+
+  return data as GameRow
+}
+
+// NFL games stored before the season calendar existed have the calendar year
+// as their season and week 0, and preseason games stored before the open
+// week was skipped are a week early. Recomputes them from kickoff; returns
+// the number of rows fixed.
+export async function backfillGameWeeks(): Promise<number> {
+  const { data, error } = await supabase
+    .from('games')
+    .select('id, kickoff_at, season, week, phase')
+    .eq('sport', NFL)
+    .or('phase.is.null,phase.eq.PRESEASON')
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const games = ((data as Pick<GameRow, 'id' | 'kickoff_at' | 'season' | 'week' | 'phase'>[]) || []).filter((game) => {
+    const { season, week, phase } = getNflWeek(game.kickoff_at)
+    return game.season !== season || game.week !== week || game.phase !== phase
+  })
+
+  for (const game of games) {
+    const { season, week, phase } = getNflWeek(game.kickoff_at)
+
+    const { error: updateError } = await supabase
+      .from('games')
+      .update({ season, week, phase })
+      .eq('id', game.id)
+
+    if (updateError) {
+      throw new Error(updateError.message)
+    }
+  }
+
+  return games.length
+}
+
+// Creates or refreshes the games rows for a batch of odds feed games and
+// returns their ids keyed by external game id.
+export async function upsertGames(games: OddsGame[]): Promise<Map<string, string>> {
+  if (games.length === 0) return new Map()
+
+  const rows = games.map((game) => {
+    const kickoff = new Date(game.commenceTime)
+    return {
+      ...getGameCalendar(game.sportKey, kickoff),
+      sport: game.sportKey,
+      home_team: game.homeTeam,
+      away_team: game.awayTeam,
+      kickoff_at: kickoff.toISOString(),
+      external_game_id: game.id
+    }
+  })
+
+  const { data, error } = await supabase
+    .from('games')
+    .upsert(rows, { onConflict: 'external_game_id' })
+    .select('id, external_game_id')
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const ids = new Map<string, string>()
+  for (const row of (data as Pick<GameRow, 'id' | 'external_game_id'>[]) || []) {
+    if (row.external_game_id) ids.set(row.external_game_id, row.id)
+  }
+  return ids
+}
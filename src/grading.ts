@@ -0,0 +1,127 @@
+import type { BetSide, MarketType } from './oddsApi'
+import { americanToDecimal, combineDecimalOdds, decimalToAmerican } from './oddsMath'
+import type { SettleResult } from './types'
+
+// The parts of a straight bet or parlay leg needed to grade it.
+export type GradableSelection = {
+  id: string
+  market: MarketType
+  side: BetSide
+  spread_line: number | null
+  total_line: number | null
+}
+
+export type ParlayLegResult = {
+  status: 'PENDING' | SettleResult | string
+  odds_american: number
+  fair_odds_american: number
+}
+
+export type ParlayOutcome = {
+  result: SettleResult
+  oddsAmerican: number
+  fairOddsAmerican: number
+}
+
+export function calculateProfit(stake: number, odds: number): number {
+  if (odds > 0) {
+    return stake * (odds / 100)
+  } else {
+    return stake * (100 / Math.abs(odds))
+  }
+}
+
+// Grades a spread bet from the final score. The line is applied to the side
+// that was bet, so a hook (half point) can never push.
+export function gradeSpreadBet(
+  side: 'HOME' | 'AWAY',
+  spreadLine: number,
+  homeScore: number,
+  awayScore: number
+): SettleResult {
+  const margin = side === 'HOME' ? homeScore - awayScore : awayScore - homeScore
+  const covered = margin + spreadLine
+
+  if (covered > 0) return 'WON'
+  if (covered < 0) return 'LOST'
+  return 'PUSH'
+}
+
+// Moneylines win outright; a tie refunds the stake.
+export function gradeMoneylineBet(
+  side: 'HOME' | 'AWAY',
+  homeScore: number,
+  awayScore: number
+): SettleResult {
+  const margin = side === 'HOME' ? homeScore - awayScore : awayScore - homeScore
+
+  if (margin > 0) return 'WON'
+  if (margin < 0) return 'LOST'
+  return 'PUSH'
+}
+
+export function gradeTotalBet(
+  side: 'OVER' | 'UNDER',
+  totalLine: number,
+  homeScore: number,
+  awayScore: number
+): SettleResult {
+  const total = homeScore + awayScore
+  if (total === totalLine) return 'PUSH'
+
+  const over = total > totalLine
+  return (side === 'OVER') === over ? 'WON' : 'LOST'
+}
+
+export function gradeBet(bet: GradableSelection, homeScore: number, awayScore: number): SettleResult {
+  if (bet.market === 'totals') {
+    if (bet.total_line == null || (bet.side !== 'OVER' && bet.side !== 'UNDER')) {
+      throw new Error(`Bet ${bet.id} has no total to grade against`)
+    }
+    return gradeTotalBet(bet.side, bet.total_line, homeScore, awayScore)
+  }
+
+  if (bet.side !== 'HOME' && bet.side !== 'AWAY') {
+    throw new Error(`Bet ${bet.id} has an invalid side for ${bet.market}`)
+  }
+
+  if (bet.market === 'h2h') {
+    return gradeMoneylineBet(bet.side, homeScore, awayScore)
+  }
+
+  if (bet.spread_line == null) {
+    throw new Error(`Bet ${bet.id} has no spread to grade against`)
+  }
+  return gradeSpreadBet(bet.side, bet.spread_line, homeScore, awayScore)
+}
+
+// Fallback fair price for bets placed without the other side's price (see
+// fairOdds.ts): spreads and totals are treated as even money. A moneyline
+// has no natural even-money price, so it keeps its own.
+export function getFairOddsAmerican(market: MarketType, odds: number): number {
+  return market === 'h2h' ? odds : 100
+}
+
+// Decides a parlay from its graded legs. Any losing leg loses the parlay;
+// pushed legs drop out and the price is recomputed from the legs that won.
+// Returns null while a leg is still pending and nothing has lost yet.
+export function settleParlay(legs: ParlayLegResult[]): ParlayOutcome | null {
+  if (legs.some((leg) => leg.status === 'LOST')) {
+    return { result: 'LOST', oddsAmerican: 0, fairOddsAmerican: 0 }
+  }
+
+  if (legs.some((leg) => leg.status !== 'WON' && leg.status !== 'PUSH')) {
+    return null
+  }
+
+  const winners = legs.filter((leg) => leg.status === 'WON')
+  if (winners.length === 0) {
+    return { result: 'PUSH', oddsAmerican: 0, fairOddsAmerican: 0 }
+  }
+
+  return {
+    result: 'WON',
+    oddsAmerican: decimalToAmerican(combineDecimalOdds(winners.map((leg) => americanToDecimal(leg.odds_american)))),
+    fairOddsAmerican: decimalToAmerican(combineDecimalOdds(winners.map((leg) => americanToDecimal(leg.fair_odds_american))))
+  }
+}
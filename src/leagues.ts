@@ -0,0 +1,78 @@
+import { supabase } from './supabaseClient'
+import type { SportKey } from './sports'
+import type { LeagueMemberRow, LeagueRow, UserSportStatsRow } from './types'
+
+// The signed-in user's memberships, each with its league.
+export async function fetchMyLeagues(userId: string): Promise<LeagueMemberRow[]> {
+  const { data, error } = await supabase
+    .from('league_members')
+    .select('*, league:leagues(*)')
+    .eq('user_id', userId)
+    .order('joined_at', { ascending: true })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as LeagueMemberRow[]) || []
+}
+
+// Archived members are left out.
+export async function fetchLeagueStandings(leagueId: string): Promise<LeagueMemberRow[]> {
+  const { data, error } = await supabase
+    .from('league_members')
+    .select('*, user:users!inner(username, display_name)')
+    .eq('league_id', leagueId)
+    .is('user.archived_at', null)
+    .order('current_balance', { ascending: false })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as LeagueMemberRow[]) || []
+}
+
+// Results in one sport for one bankroll (a league, or the global pool), best
+// profit first.
+export async function fetchSportStandings(leagueId: string | null, sport: SportKey): Promise<UserSportStatsRow[]> {
+  let query = supabase
+    .from('user_sport_stats')
+    .select('*')
+    .eq('sport', sport)
+
+  query = leagueId ? query.eq('league_id', leagueId) : query.is('league_id', null)
+
+  const { data, error } = await query.order('profit', { ascending: false })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as UserSportStatsRow[]) || []
+}
+
+export async function createLeague(name: string, startingBalance: number): Promise<LeagueRow> {
+  const { data, error } = await supabase.rpc('create_league', {
+    p_name: name,
+    p_starting_balance: startingBalance
+  })
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Failed to create league')
+  }
+
+  return data as LeagueRow
+}
+
+export async function joinLeague(inviteCode: string): Promise<LeagueRow> {
+  const { data, error } = await supabase.rpc('join_league', {
+    p_invite_code: inviteCode
+  })
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Failed to join league')
+  }
+
+  return data as LeagueRow
+}
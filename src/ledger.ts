@@ -0,0 +1,49 @@
+import { supabase } from './supabaseClient'
+import type { ReconciliationRow, TransactionRow } from './types'
+
+export type LedgerEntry = TransactionRow & {
+  // sum of every entry up to and including this one
+  running_balance: number
+  // true when the recorded balance_after disagrees with the running sum
+  drifted: boolean
+}
+
+// Adds a running balance to entries in the order they were written.
+export function withRunningBalances(rows: TransactionRow[]): LedgerEntry[] {
+  let running = 0
+  return rows.map((row) => {
+    running = Math.round((running + Number(row.amount)) * 100) / 100
+    return { ...row, running_balance: running, drifted: Math.abs(running - Number(row.balance_after)) >= 0.01 }
+  })
+}
+
+// One bankroll's ledger, oldest first: the user's global pool when leagueId
+// is null, or their membership in that league.
+export async function fetchLedger(userId: string, leagueId: string | null): Promise<LedgerEntry[]> {
+  let query = supabase
+    .from('transactions')
+    .select('*, bet:bets(team_name, bet_type)')
+    .eq('user_id', userId)
+
+  query = leagueId ? query.eq('league_id', leagueId) : query.is('league_id', null)
+
+  const { data, error } = await query.order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return withRunningBalances((data as TransactionRow[]) || [])
+}
+
+// Bankrolls whose balance has drifted from their ledger. With repair, each
+// gets a RECONCILIATION entry that closes the gap. Admins only.
+export async function reconcileBalances(repair: boolean = false): Promise<ReconciliationRow[]> {
+  const { data, error } = await supabase.rpc('reconcile_balances', { p_repair: repair })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as ReconciliationRow[]) || []
+}
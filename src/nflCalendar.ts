@@ -0,0 +1,103 @@
+export type SeasonPhase = 'PRESEASON' | 'REGULAR' | 'POSTSEASON'
+
+export type NflWeek = {
+  season: number
+  phase: SeasonPhase
+  week: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+
+// NFL weeks roll over on Tuesday morning, after Monday night's game has
+// finished everywhere in the US.
+const WEEK_ROLLOVER_HOUR_UTC = 10
+
+const POSTSEASON_LABELS = ['Wild Card', 'Divisional Round', 'Conference Championships', 'Super Bowl']
+
+// The 17-game schedule started in 2021 and took a preseason week with it.
+function getRegularSeasonWeeks(season: number): number {
+  return season >= 2021 ? 18 : 17
+}
+
+function getPreseasonWeeks(season: number): number {
+  return season >= 2021 ? 3 : 4
+}
+
+// Week 1 opens on the Tuesday after Labor Day (the first Monday in September).
+function getWeekOneStart(season: number): number {
+  const septemberFirst = new Date(Date.UTC(season, 8, 1))
+  const daysToMonday = (8 - septemberFirst.getUTCDay()) % 7
+  const laborDay = 1 + daysToMonday
+  return Date.UTC(season, 8, laborDay + 1, WEEK_ROLLOVER_HOUR_UTC)
+}
+
+// Games in January and February belong to the season that started the
+// previous September.
+function getSeasonYear(kickoff: Date): number {
+  const year = kickoff.getUTCFullYear()
+  return kickoff.getUTCMonth() < 2 ? year - 1 : year
+}
+
+export function getNflWeek(kickoffAt: string | Date): NflWeek {
+  const kickoff = typeof kickoffAt === 'string' ? new Date(kickoffAt) : kickoffAt
+  if (isNaN(kickoff.getTime())) {
+    throw new Error(`Invalid kickoff time: ${String(kickoffAt)}`)
+  }
+
+  const season = getSeasonYear(kickoff)
+  const weekIndex = Math.floor((kickoff.getTime() - getWeekOneStart(season)) / WEEK_MS)
+
+  if (weekIndex < 0) {
+    // the last preseason week ends a week before Week 1, across an open week
+    // with no games. The Hall of Fame game falls before preseason week 1, so
+    // fold it in.
+    const preseasonWeeks = getPreseasonWeeks(season)
+    return { season, phase: 'PRESEASON', week: Math.min(preseasonWeeks, Math.max(1, preseasonWeeks + weekIndex + 2)) }
+  }
+
+  const regularWeeks = getRegularSeasonWeeks(season)
+  if (weekIndex < regularWeeks) {
+    return { season, phase: 'REGULAR', week: weekIndex + 1 }
+  }
+
+  // the off week before the Super Bowl has no games, so anything past the
+  // conference championships is the Super Bowl
+  const postseasonIndex = weekIndex - regularWeeks
+  return { season, phase: 'POSTSEASON', week: Math.min(postseasonIndex + 1, POSTSEASON_LABELS.length) }
+}
+
+// Sortable key, unique per season week across phases.
+export function getNflWeekKey({ season, phase, week }: NflWeek): string {
+  const phaseOrder = phase === 'PRESEASON' ? 0 : phase === 'REGULAR' ? 1 : 2
+  return `${season}-${phaseOrder}-${String(week).padStart(2, '0')}`
+}
+
+export function formatNflWeek({ season, phase, week }: NflWeek): string {
+  if (phase === 'PRESEASON') return `${season} Preseason Week ${week}`
+  if (phase === 'POSTSEASON') return `${season} ${POSTSEASON_LABELS[week - 1] ?? `Postseason Week ${week}`}`
+  return `${season} Week ${week}`
+}
+
+// Known kickoffs, checked in development so a calendar change that breaks
+// them shows up in the console.
+const KNOWN_WEEKS: [string, string][] = [
+  ['2023-08-12T23:00:00Z', '2023 Preseason Week 1'],
+  ['2023-08-19T23:00:00Z', '2023 Preseason Week 2'],
+  ['2023-08-26T23:00:00Z', '2023 Preseason Week 3'],
+  ['2023-09-08T00:20:00Z', '2023 Week 1'],
+  ['2024-08-01T23:00:00Z', '2024 Preseason Week 1'],
+  ['2024-08-10T23:00:00Z', '2024 Preseason Week 1'],
+  ['2024-08-17T23:00:00Z', '2024 Preseason Week 2'],
+  ['2024-08-24T23:00:00Z', '2024 Preseason Week 3'],
+  ['2024-09-06T00:20:00Z', '2024 Week 1'],
+  ['2025-01-12T01:30:00Z', '2024 Wild Card'],
+  ['2025-02-09T23:30:00Z', '2024 Super Bowl']
+]
+
+if (import.meta.env.DEV) {
+  for (const [kickoff, expected] of KNOWN_WEEKS) {
+    const actual = formatNflWeek(getNflWeek(kickoff))
+    console.assert(actual === expected, `NFL calendar: ${kickoff} is ${actual}, expected ${expected}`)
+  }
+}
@@ -1,95 +1,321 @@
+import { americanToDecimal } from './oddsMath'
+import type { OddsProvider } from './oddsProvider'
+import type { SportKey } from './sports'
+
 const ODDS_API_BASE = 'https://api.the-odds-api.com/v4'
 
+export type MarketType = 'spreads' | 'h2h' | 'totals'
+
+export type BetSide = 'HOME' | 'AWAY' | 'OVER' | 'UNDER'
+
 export type SpreadSide = {
   teamName: string
   point: number
   price: number
 }
 
-export type NflSpreadGame = {
+export type MoneylineSide = {
+  teamName: string
+  price: number
+}
+
+export type TotalSide = {
+  point: number
+  price: number
+}
+
+// One book's lines for a game.
+export type BookmakerOdds = {
+  key: string
+  title: string
+  lastUpdate: string | null
+  homeSpread: SpreadSide | null
+  awaySpread: SpreadSide | null
+  homeMoneyline: MoneylineSide | null
+  awayMoneyline: MoneylineSide | null
+  over: TotalSide | null
+  under: TotalSide | null
+}
+
+export type OddsGame = {
   id: string
+  sportKey: SportKey
   commenceTime: string
   homeTeam: string
   awayTeam: string
+  bookmakers: BookmakerOdds[]
+}
+
+// One bettable price at one book, whichever market it belongs to. `point` is
+// the spread for spreads, the total for totals and null for moneylines.
+export type MarketOutcome = {
+  market: MarketType
+  side: BetSide
+  name: string
+  point: number | null
+  price: number
   bookmaker: string
-  homeSpread: SpreadSide | null
-  awaySpread: SpreadSide | null
+  bookmakerTitle: string
 }
 
-export async function fetchNflSpreadsDraftKings(): Promise<NflSpreadGame[]> {
-  const apiKey = import.meta.env.VITE_ODDS_API_KEY
-  if (!apiKey) {
-    throw new Error('Missing VITE_ODDS_API_KEY')
+// The Odds API's JSON, as returned by /odds and recorded in fixtures.
+export type RawOutcome = {
+  name: string
+  price: number
+  point?: number
+}
+
+export type RawMarket = {
+  key: string
+  last_update?: string
+  outcomes: RawOutcome[]
+}
+
+export type RawBookmaker = {
+  key: string
+  title?: string
+  last_update?: string
+  markets?: RawMarket[]
+}
+
+export type RawOddsGame = {
+  id: string
+  sport_key?: string
+  sport_title?: string
+  commence_time: string
+  home_team: string
+  away_team: string
+  bookmakers?: RawBookmaker[]
+}
+
+export function getMarketOutcome(
+  book: BookmakerOdds,
+  market: MarketType,
+  side: BetSide
+): MarketOutcome | null {
+  const bookmaker = book.key
+  const bookmakerTitle = book.title
+
+  if (market === 'spreads') {
+    const spread = side === 'HOME' ? book.homeSpread : side === 'AWAY' ? book.awaySpread : null
+    return spread
+      ? { market, side, name: spread.teamName, point: spread.point, price: spread.price, bookmaker, bookmakerTitle }
+      : null
   }
 
-  const url = new URL(
-    `${ODDS_API_BASE}/sports/americanfootball_nfl/odds`
-  )
+  if (market === 'h2h') {
+    const ml = side === 'HOME' ? book.homeMoneyline : side === 'AWAY' ? book.awayMoneyline : null
+    return ml
+      ? { market, side, name: ml.teamName, point: null, price: ml.price, bookmaker, bookmakerTitle }
+      : null
+  }
 
-  url.searchParams.set('apiKey', apiKey)
-  url.searchParams.set('regions', 'us')
-  url.searchParams.set('markets', 'spreads')
-  url.searchParams.set('oddsFormat', 'american')
-  url.searchParams.set('bookmakers', 'draftkings')
+  const total = side === 'OVER' ? book.over : side === 'UNDER' ? book.under : null
+  return total
+    ? { market, side, name: side === 'OVER' ? 'Over' : 'Under', point: total.point, price: total.price, bookmaker, bookmakerTitle }
+    : null
+}
 
-  const res = await fetch(url.toString())
+export const OPPOSING_SIDES: Record<BetSide, BetSide> = { HOME: 'AWAY', AWAY: 'HOME', OVER: 'UNDER', UNDER: 'OVER' }
 
-  if (!res.ok) {
-    const text = await res.text()
-    throw new Error(`Odds API error ${res.status}: ${text}`)
+// The same book's price on the other side of an outcome's market.
+export function getOpposingOutcome(game: OddsGame, outcome: MarketOutcome): MarketOutcome | null {
+  const book = game.bookmakers.find((b) => b.key === outcome.bookmaker)
+  return book ? getMarketOutcome(book, outcome.market, OPPOSING_SIDES[outcome.side]) : null
+}
+
+// Orders two prices for the same side from the bettor's point of view:
+// negative when `a` is the better bet. More points win first (a lower total
+// for the over), then the better payout.
+export function compareOutcomes(a: MarketOutcome, b: MarketOutcome): number {
+  if (a.point != null && b.point != null && a.point !== b.point) {
+    return a.side === 'OVER' ? a.point - b.point : b.point - a.point
   }
+  return americanToDecimal(b.price) - americanToDecimal(a.price)
+}
+
+// Every book's price for one side, best first.
+export function getBookOutcomes(
+  game: OddsGame,
+  market: MarketType,
+  side: BetSide
+): MarketOutcome[] {
+  return game.bookmakers
+    .map((book) => getMarketOutcome(book, market, side))
+    .filter((o): o is MarketOutcome => o != null)
+    .sort(compareOutcomes)
+}
+
+export function getBestOutcome(
+  game: OddsGame,
+  market: MarketType,
+  side: BetSide
+): MarketOutcome | null {
+  return getBookOutcomes(game, market, side)[0] ?? null
+}
 
-  const json = (await res.json()) as any[]
+// Betting on a game closes at its scheduled start.
+export function hasKickedOff(game: OddsGame, now: number = Date.now()): boolean {
+  return new Date(game.commenceTime).getTime() <= now
+}
 
-  const games: NflSpreadGame[] = json.map((game) => {
-    const bookmaker = (game.bookmakers || []).find(
-      (b: any) => b.key === 'draftkings'
-    )
+// Monthly request quota as reported by the Odds API on every response.
+export type OddsQuota = {
+  remaining: number | null
+  used: number | null
+}
+
+export type OddsResponse = {
+  games: OddsGame[]
+  quota: OddsQuota
+}
+
+function readQuota(res: Response): OddsQuota {
+  const header = (name: string): number | null => {
+    const value = res.headers.get(name)
+    return value != null && value !== '' && !isNaN(Number(value)) ? Number(value) : null
+  }
+
+  return {
+    remaining: header('x-requests-remaining'),
+    used: header('x-requests-used')
+  }
+}
+
+export function parseOdds(json: RawOddsGame[], sportKey: SportKey): OddsGame[] {
+  return json.map((game) => {
+    const toBookmakerOdds = (bookmaker: RawBookmaker): BookmakerOdds => {
+      const outcomesFor = (key: MarketType): RawOutcome[] =>
+        (bookmaker.markets || []).find((m) => m.key === key)?.outcomes || []
+
+      const spreads = outcomesFor('spreads')
+      const moneylines = outcomesFor('h2h')
+      const totals = outcomesFor('totals')
+
+      const toSide = (o: RawOutcome | undefined): SpreadSide | null =>
+        o && o.point != null
+          ? {
+              teamName: o.name,
+              point: o.point,
+              price: o.price
+            }
+          : null
+
+      const toMoneyline = (o: RawOutcome | undefined): MoneylineSide | null =>
+        o ? { teamName: o.name, price: o.price } : null
+
+      const toTotal = (o: RawOutcome | undefined): TotalSide | null =>
+        o && o.point != null ? { point: o.point, price: o.price } : null
 
-    if (!bookmaker) {
       return {
-        id: game.id,
-        commenceTime: game.commence_time,
-        homeTeam: game.home_team,
-        awayTeam: game.away_team,
-        bookmaker: 'draftkings',
-        homeSpread: null,
-        awaySpread: null
+        key: bookmaker.key,
+        title: bookmaker.title || bookmaker.key,
+        lastUpdate: bookmaker.last_update ?? null,
+        homeSpread: toSide(spreads.find((o) => o.name === game.home_team)),
+        awaySpread: toSide(spreads.find((o) => o.name === game.away_team)),
+        homeMoneyline: toMoneyline(moneylines.find((o) => o.name === game.home_team)),
+        awayMoneyline: toMoneyline(moneylines.find((o) => o.name === game.away_team)),
+        over: toTotal(totals.find((o) => o.name === 'Over')),
+        under: toTotal(totals.find((o) => o.name === 'Under'))
       }
     }
 
-    const spreadsMarket = (bookmaker.markets || []).find(
-      (m: any) => m.key === 'spreads'
-    )
+    return {
+      id: game.id,
+      sportKey,
+      commenceTime: game.commence_time,
+      homeTeam: game.home_team,
+      awayTeam: game.away_team,
+      bookmakers: (game.bookmakers || []).map(toBookmakerOdds)
+    }
+  })
+}
 
-    const outcomes = (spreadsMarket?.outcomes || []) as any[]
+export type GameScore = {
+  id: string
+  commenceTime: string
+  homeTeam: string
+  awayTeam: string
+  completed: boolean
+  homeScore: number | null
+  awayScore: number | null
+  lastUpdate: string | null
+}
 
-    const homeOutcome = outcomes.find(
-      (o) => o.name === game.home_team
-    )
-    const awayOutcome = outcomes.find(
-      (o) => o.name === game.away_team
-    )
+export type RawScoresGame = {
+  id: string
+  commence_time: string
+  completed: boolean
+  home_team: string
+  away_team: string
+  scores: { name: string; score: string }[] | null
+  last_update: string | null
+}
 
-    const toSide = (o: any | undefined): SpreadSide | null =>
-      o
-        ? {
-            teamName: o.name,
-            point: o.point,
-            price: o.price
-          }
-        : null
+export function parseScores(json: RawScoresGame[]): GameScore[] {
+  return json.map((game) => {
+    const scoreFor = (team: string): number | null => {
+      const entry = (game.scores || []).find((s) => s.name === team)
+      return entry ? Number(entry.score) : null
+    }
 
     return {
       id: game.id,
       commenceTime: game.commence_time,
       homeTeam: game.home_team,
       awayTeam: game.away_team,
-      bookmaker: bookmaker.title || bookmaker.key,
-      homeSpread: toSide(homeOutcome),
-      awaySpread: toSide(awayOutcome)
+      completed: game.completed,
+      homeScore: scoreFor(game.home_team),
+      awayScore: scoreFor(game.away_team),
+      lastUpdate: game.last_update
     }
   })
+}
+
+function getApiKey(): string {
+  const apiKey = import.meta.env.VITE_ODDS_API_KEY
+  if (!apiKey) {
+    throw new Error('Missing VITE_ODDS_API_KEY')
+  }
+  return apiKey
+}
+
+async function getJson<T>(path: string, params: Record<string, string>): Promise<{ json: T; res: Response }> {
+  const url = new URL(`${ODDS_API_BASE}${path}`)
+
+  url.searchParams.set('apiKey', getApiKey())
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value)
+  }
 
-  return games
+  const res = await fetch(url.toString())
+
+  if (!res.ok) {
+    const text = await res.text()
+    throw new Error(`Odds API error ${res.status}: ${text}`)
+  }
+
+  return { json: (await res.json()) as T, res }
+}
+
+// Live odds and scores from The Odds API. The key is only checked when a
+// request is made, so the fixture provider runs without one.
+export const oddsApiProvider: OddsProvider = {
+  name: 'The Odds API',
+
+  async fetchOdds(sportKey) {
+    const { json, res } = await getJson<RawOddsGame[]>(`/sports/${sportKey}/odds`, {
+      regions: 'us',
+      markets: 'spreads,h2h,totals',
+      oddsFormat: 'american'
+    })
+    return { games: parseOdds(json, sportKey), quota: readQuota(res) }
+  },
+
+  async fetchScores(sportKey, daysFrom = 3) {
+    const { json } = await getJson<RawScoresGame[]>(`/sports/${sportKey}/scores`, {
+      daysFrom: String(daysFrom)
+    })
+    return parseScores(json)
+  }
 }
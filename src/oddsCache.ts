@@ -0,0 +1,132 @@
+import { supabase } from './supabaseClient'
+import { getOddsProvider } from './oddsProvider'
+import { isFeedWriter } from './games'
+import type { OddsGame, OddsQuota } from './oddsApi'
+import type { SportKey } from './sports'
+
+// keyed by source so replayed fixtures never stand in for live odds
+function getCacheKey(sportKey: SportKey): string {
+  return `${sportKey}:${import.meta.env.VITE_ODDS_SOURCE ?? 'api'}`
+}
+
+const MAX_AGE_SECONDS = Number(import.meta.env.VITE_ODDS_MAX_AGE_SECONDS ?? 300)
+const MIN_QUOTA = Number(import.meta.env.VITE_ODDS_MIN_QUOTA ?? 25)
+
+export type CachedOdds = {
+  games: OddsGame[]
+  quota: OddsQuota
+  fetchedAt: string
+}
+
+export type OddsLoad = CachedOdds & {
+  // true when the odds came from the cache rather than a fresh API call
+  fromCache: boolean
+  // true when the cache was stale but quota was too low to refresh it
+  quotaBlocked: boolean
+  // true when the cache was stale and only an admin can refresh it
+  stale: boolean
+}
+
+type OddsCacheRow = {
+  payload: OddsGame[]
+  requests_remaining: number | null
+  requests_used: number | null
+  fetched_at: string
+}
+
+function readLocalCache(cacheKey: string): CachedOdds | null {
+  try {
+    const raw = localStorage.getItem(`oddsCache:${cacheKey}`)
+    return raw ? (JSON.parse(raw) as CachedOdds) : null
+  } catch {
+    return null
+  }
+}
+
+function writeLocalCache(cacheKey: string, entry: CachedOdds) {
+  try {
+    localStorage.setItem(`oddsCache:${cacheKey}`, JSON.stringify(entry))
+  } catch {
+    // storage full or disabled; the shared cache still has it
+  }
+}
+
+// The shared cache lets an admin's fetch serve everyone else. Any failure
+// there (offline, signed out, table missing) falls back to this browser's copy.
+async function readSharedCache(cacheKey: string): Promise<CachedOdds | null> {
+  const { data, error } = await supabase
+    .from('odds_cache')
+    .select('payload, requests_remaining, requests_used, fetched_at')
+    .eq('key', cacheKey)
+    .maybeSingle()
+
+  if (error || !data) return null
+
+  const row = data as OddsCacheRow
+  return {
+    games: row.payload,
+    quota: { remaining: row.requests_remaining, used: row.requests_used },
+    fetchedAt: row.fetched_at
+  }
+}
+
+async function writeSharedCache(cacheKey: string, entry: CachedOdds): Promise<void> {
+  // a failed write leaves everyone else on the older copy until the next fetch
+  await supabase.from('odds_cache').upsert({
+    key: cacheKey,
+    payload: entry.games,
+    requests_remaining: entry.quota.remaining,
+    requests_used: entry.quota.used,
+    fetched_at: entry.fetchedAt
+  })
+}
+
+export function getCacheAgeSeconds(fetchedAt: string, now: number = Date.now()): number {
+  return Math.max(0, Math.floor((now - new Date(fetchedAt).getTime()) / 1000))
+}
+
+export function isQuotaLow(quota: OddsQuota): boolean {
+  return quota.remaining != null && quota.remaining < MIN_QUOTA
+}
+
+// Serves odds from the newest cache while it is younger than
+// VITE_ODDS_MAX_AGE_SECONDS. Admins call the Odds API otherwise, unless the
+// last known quota has dropped below VITE_ODDS_MIN_QUOTA, and with nothing
+// cached always do. Everyone else only ever reads the cache an admin filled,
+// however old: bets are priced from what admins record, so their own fetch
+// would only spend quota on prices they can't bet.
+export async function loadCachedOdds(sportKey: SportKey): Promise<OddsLoad> {
+  const cacheKey = getCacheKey(sportKey)
+  const shared = await readSharedCache(cacheKey)
+  const local = readLocalCache(cacheKey)
+  const cached = [shared, local]
+    .filter((c): c is CachedOdds => c != null)
+    .sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt))[0] ?? null
+  const fresh = cached != null && getCacheAgeSeconds(cached.fetchedAt) < MAX_AGE_SECONDS
+
+  if (!(await isFeedWriter())) {
+    if (!cached) {
+      throw new Error('No odds have been loaded yet. They show up here once an admin loads them.')
+    }
+    // kept for when the shared cache can't be reached
+    if (shared) writeLocalCache(cacheKey, shared)
+    return { ...cached, fromCache: true, quotaBlocked: false, stale: !fresh }
+  }
+
+  if (cached) {
+    if (fresh) {
+      return { ...cached, fromCache: true, quotaBlocked: false, stale: false }
+    }
+    if (isQuotaLow(cached.quota)) {
+      return { ...cached, fromCache: true, quotaBlocked: true, stale: false }
+    }
+  }
+
+  const { games, quota } = await getOddsProvider().fetchOdds(sportKey)
+  const entry: CachedOdds = { games, quota, fetchedAt: new Date().toISOString() }
+
+  writeLocalCache(cacheKey, entry)
+  await writeSharedCache(cacheKey, entry)
+
+  return { ...entry, fromCache: false, quotaBlocked: false, stale: false }
+}
@@ -0,0 +1,191 @@
+import { supabase } from './supabaseClient'
+import { isFeedWriter, upsertGames } from './games'
+import { getMarketOutcome } from './oddsApi'
+import type { BetSide, MarketType, OddsGame } from './oddsApi'
+import type { GameRow, OddsSnapshotRow, UserClvRow, UserRow } from './types'
+
+const SNAPSHOT_SELECTIONS: { market: MarketType; side: BetSide }[] = [
+  { market: 'spreads', side: 'HOME' },
+  { market: 'spreads', side: 'AWAY' },
+  { market: 'h2h', side: 'HOME' },
+  { market: 'h2h', side: 'AWAY' },
+  { market: 'totals', side: 'OVER' },
+  { market: 'totals', side: 'UNDER' }
+]
+
+// Persists every book's current prices so line movement and closing lines
+// survive the next fetch. Only admins can write, so everyone else skips it.
+// Returns the number of prices stored.
+export async function recordOddsSnapshot(games: OddsGame[]): Promise<number> {
+  if (games.length === 0 || !(await isFeedWriter())) return 0
+
+  const gameIds = await upsertGames(games)
+
+  // captured_at is stamped by the database, the same for the whole batch
+  const rows = games.flatMap((game) => {
+    const gameId = gameIds.get(game.id)
+    if (!gameId) return []
+
+    return game.bookmakers.flatMap((book) =>
+      SNAPSHOT_SELECTIONS.flatMap(({ market, side }) => {
+        const outcome = getMarketOutcome(book, market, side)
+        return outcome
+          ? [{
+              game_id: gameId,
+              bookmaker: outcome.bookmaker,
+              market,
+              side,
+              point: outcome.point,
+              price: outcome.price
+            }]
+          : []
+      })
+    )
+  })
+
+  if (rows.length === 0) return 0
+
+  const { error } = await supabase.from('odds_snapshots').insert(rows)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return rows.length
+}
+
+// Closes out games that have kicked off and scores CLV on their bets.
+// Returns the number of bets scored.
+export async function captureClosingLines(): Promise<number> {
+  const { data, error } = await supabase.rpc('capture_closing_lines')
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as number | null) ?? 0
+}
+
+// Average CLV per user for one bankroll: a league, or the global pool.
+export async function fetchClvAverages(leagueId: string | null): Promise<UserClvRow[]> {
+  let query = supabase.from('user_clv').select('*')
+  query = leagueId ? query.eq('league_id', leagueId) : query.is('league_id', null)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data as UserClvRow[]) || []
+}
+
+// A bet or parlay leg placed on a game, as plotted on its line chart.
+export type BetMarker = {
+  id: string
+  market: MarketType
+  side: BetSide
+  point: number | null
+  price: number
+  placedAt: string
+  userName: string
+  parlayLeg: boolean
+}
+
+export type GameHistory = {
+  game: GameRow | null
+  snapshots: OddsSnapshotRow[]
+  bets: BetMarker[]
+}
+
+type BetPlacement = {
+  id: string
+  market: MarketType
+  side: BetSide
+  spread_line: number | null
+  total_line: number | null
+  odds_american: number
+  placed_at: string
+  user: Pick<UserRow, 'username' | 'display_name'> | null
+}
+
+type LegPlacement = Omit<BetPlacement, 'placed_at' | 'user'> & {
+  bet: Pick<BetPlacement, 'placed_at' | 'user'> | null
+}
+
+function toBetMarker(
+  placement: Omit<BetPlacement, 'placed_at' | 'user'>,
+  placedAt: string,
+  user: BetPlacement['user'],
+  parlayLeg: boolean
+): BetMarker {
+  return {
+    id: placement.id,
+    market: placement.market,
+    side: placement.side,
+    point: placement.market === 'spreads' ? placement.spread_line : placement.market === 'totals' ? placement.total_line : null,
+    price: placement.odds_american,
+    placedAt,
+    userName: user?.display_name || user?.username || 'Unknown',
+    parlayLeg
+  }
+}
+
+// Everything recorded about one odds feed game: its snapshots in capture
+// order and every bet and parlay leg placed on it.
+export async function fetchGameHistory(externalGameId: string): Promise<GameHistory> {
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('*')
+    .eq('external_game_id', externalGameId)
+    .maybeSingle()
+
+  if (gameError) {
+    throw new Error(gameError.message)
+  }
+
+  if (!game) {
+    return { game: null, snapshots: [], bets: [] }
+  }
+
+  const { data: snapshots, error: snapshotsError } = await supabase
+    .from('odds_snapshots')
+    .select('*')
+    .eq('game_id', game.id)
+    .order('captured_at', { ascending: true })
+
+  if (snapshotsError) {
+    throw new Error(snapshotsError.message)
+  }
+
+  const { data: bets, error: betsError } = await supabase
+    .from('bets')
+    .select('id, market, side, spread_line, total_line, odds_american, placed_at, user:users(username, display_name)')
+    .eq('game_id', game.id)
+
+  if (betsError) {
+    throw new Error(betsError.message)
+  }
+
+  const { data: legs, error: legsError } = await supabase
+    .from('parlay_legs')
+    .select('id, market, side, spread_line, total_line, odds_american, bet:bets!inner(placed_at, user:users(username, display_name))')
+    .eq('game_id', game.id)
+
+  if (legsError) {
+    throw new Error(legsError.message)
+  }
+
+  const markers = [
+    ...((bets as unknown as BetPlacement[]) || []).map((b) => toBetMarker(b, b.placed_at, b.user, false)),
+    ...((legs as unknown as LegPlacement[]) || [])
+      .filter((leg) => leg.bet)
+      .map((leg) => toBetMarker(leg, leg.bet!.placed_at, leg.bet!.user, true))
+  ]
+
+  return {
+    game: game as GameRow,
+    snapshots: (snapshots as OddsSnapshotRow[]) || [],
+    bets: markers.sort((a, b) => a.placedAt.localeCompare(b.placedAt))
+  }
+}
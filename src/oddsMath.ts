@@ -0,0 +1,38 @@
+// Prices and lines with their sign, e.g. +150, -110 or +3.5.
+export function formatSigned(n: number): string {
+  return n > 0 ? `+${n}` : `${n}`
+}
+
+// Money won or lost with its sign, to the cent: +25.00 or -10.50.
+export function formatAmount(n: number): string {
+  return n > 0 ? `+${n.toFixed(2)}` : n.toFixed(2)
+}
+
+export function americanToDecimal(odds: number): number {
+  return odds > 0 ? 1 + odds / 100 : 1 + 100 / Math.abs(odds)
+}
+
+export function decimalToAmerican(decimal: number): number {
+  if (decimal >= 2) {
+    return Math.round((decimal - 1) * 100)
+  }
+  return Math.round(-100 / (decimal - 1))
+}
+
+// Parlay odds are the product of the legs' decimal odds.
+export function combineDecimalOdds(decimals: number[]): number {
+  return decimals.reduce((product, d) => product * d, 1)
+}
+
+export function combineAmericanOdds(odds: number[]): number {
+  return decimalToAmerican(combineDecimalOdds(odds.map(americanToDecimal)))
+}
+
+// Implied win probability of a price, vig included.
+export function americanToImpliedProbability(odds: number): number {
+  return odds > 0 ? 100 / (odds + 100) : Math.abs(odds) / (Math.abs(odds) + 100)
+}
+
+export function impliedProbabilityToAmerican(probability: number): number {
+  return decimalToAmerican(1 / probability)
+}
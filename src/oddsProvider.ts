@@ -0,0 +1,23 @@
+import type { GameScore, OddsResponse } from './oddsApi'
+import { oddsApiProvider } from './oddsApi'
+import { createFixtureProvider } from './fixtureProvider'
+import type { SportKey } from './sports'
+
+// Where odds and scores come from. The app only talks to the provider, so the
+// live API and recorded fixtures are interchangeable.
+export interface OddsProvider {
+  name: string
+  fetchOdds(sportKey: SportKey): Promise<OddsResponse>
+  fetchScores(sportKey: SportKey, daysFrom?: number): Promise<GameScore[]>
+}
+
+let provider: OddsProvider | null = null
+
+// VITE_ODDS_SOURCE=fixture replays the recorded slate in src/fixtures and
+// needs neither network access nor an API key.
+export function getOddsProvider(): OddsProvider {
+  if (!provider) {
+    provider = import.meta.env.VITE_ODDS_SOURCE === 'fixture' ? createFixtureProvider() : oddsApiProvider
+  }
+  return provider
+}
@@ -0,0 +1,205 @@
+import { supabase } from './supabaseClient'
+import { getOddsProvider } from './oddsProvider'
+import type { GameScore } from './oddsApi'
+import { getFairOddsAmerican, gradeBet, settleParlay } from './grading'
+import { isValidFinalScore } from './sports'
+import type { SportKey } from './sports'
+import type { BetRow, GameInfo, ParlayLegRow, SettleResult } from './types'
+
+export const GAME_SCORE_FIELDS = 'sport, home_team, away_team, kickoff_at, home_score, away_score, completed'
+
+// The final score of a game that can be graded, or null if it has none yet.
+function getGradableScore(game: GameInfo | null): { home: number; away: number } | null {
+  if (!game || game.home_score == null || game.away_score == null) return null
+  if (!isValidFinalScore(game.sport, game.home_score, game.away_score)) return null
+  return { home: game.home_score, away: game.away_score }
+}
+
+// The no-vig price stored at placement, or the even-money fallback for bets
+// placed before the other side's price was captured.
+function getLegFairOdds(leg: ParlayLegRow): number {
+  return leg.fair_odds_american ?? getFairOddsAmerican(leg.market, leg.odds_american)
+}
+
+// Settles a single bet through the settle_bet function, which credits the
+// owner's live balance and writes the ledger entry in one transaction. The
+// database grades and prices the bet itself; `result` is checked against
+// it. Returns false when the bet had already been settled by someone else.
+export async function settleBet(bet: BetRow, result: SettleResult): Promise<boolean> {
+  if (bet.status !== 'PENDING') {
+    throw new Error('Bet is already settled.')
+  }
+
+  const { data, error } = await supabase.rpc('settle_bet', {
+    p_bet_id: bet.id,
+    p_result: result
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data != null
+}
+
+// Grades every PENDING straight bet whose game has a final score.
+async function gradeStraightBets(ownerId: string | null): Promise<number> {
+  let query = supabase
+    .from('bets')
+    .select(`*, game:games!inner(${GAME_SCORE_FIELDS})`)
+    .eq('bet_type', 'STRAIGHT')
+    .eq('status', 'PENDING')
+    .eq('game.completed', true)
+
+  if (ownerId) {
+    query = query.eq('user_id', ownerId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const bets = (data as BetRow[]) || []
+  let settled = 0
+
+  for (const bet of bets) {
+    const score = getGradableScore(bet.game)
+    if (!score || !bet.market || !bet.side) continue
+
+    const result = gradeBet({ ...bet, market: bet.market, side: bet.side }, score.home, score.away)
+
+    if (await settleBet(bet, result)) settled++
+  }
+
+  return settled
+}
+
+// Marks each PENDING parlay leg whose game has a final score.
+async function gradeParlayLegs(ownerId: string | null): Promise<void> {
+  let query = supabase
+    .from('parlay_legs')
+    .select(`*, game:games!inner(${GAME_SCORE_FIELDS}), bet:bets!inner(user_id)`)
+    .eq('status', 'PENDING')
+    .eq('game.completed', true)
+
+  if (ownerId) {
+    query = query.eq('bet.user_id', ownerId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  for (const leg of (data as ParlayLegRow[]) || []) {
+    const score = getGradableScore(leg.game)
+    if (!score) continue
+
+    const status = gradeBet(leg, score.home, score.away)
+
+    const { error: legError } = await supabase.rpc('grade_parlay_leg', {
+      p_leg_id: leg.id,
+      p_result: status
+    })
+
+    if (legError) {
+      throw new Error(legError.message)
+    }
+  }
+}
+
+// Settles every PENDING parlay that its graded legs have decided.
+async function gradeParlays(ownerId: string | null): Promise<number> {
+  await gradeParlayLegs(ownerId)
+
+  let query = supabase
+    .from('bets')
+    .select('*, legs:parlay_legs(*)')
+    .eq('bet_type', 'PARLAY')
+    .eq('status', 'PENDING')
+
+  if (ownerId) {
+    query = query.eq('user_id', ownerId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  let settled = 0
+
+  for (const bet of (data as BetRow[]) || []) {
+    const outcome = settleParlay(
+      (bet.legs || []).map((leg) => ({
+        status: leg.status,
+        odds_american: leg.odds_american,
+        fair_odds_american: getLegFairOdds(leg)
+      }))
+    )
+    if (!outcome) continue
+
+    if (await settleBet(bet, outcome.result)) settled++
+  }
+
+  return settled
+}
+
+// Grades every PENDING bet that final scores have decided. Players can only
+// settle their own bets, so pass their id; admins pass null to grade
+// everyone's. Returns the number of bets settled.
+export async function gradePendingBets(ownerId: string | null): Promise<number> {
+  const straight = await gradeStraightBets(ownerId)
+  const parlays = await gradeParlays(ownerId)
+  return straight + parlays
+}
+
+// Sports with a game that has kicked off but has no final score yet. Only
+// these are worth spending scores requests on.
+async function getSportsAwaitingScores(): Promise<SportKey[]> {
+  const { data, error } = await supabase
+    .from('games')
+    .select('sport')
+    .eq('completed', false)
+    .lte('kickoff_at', new Date().toISOString())
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return [...new Set(((data as { sport: SportKey }[]) || []).map((g) => g.sport))]
+}
+
+// Pulls recent scores, stores the finals through record_final_scores and
+// grades every bet that is now decided. Only admins may record scores, so
+// players grade with gradePendingBets instead.
+export async function syncFinalScores(): Promise<number> {
+  const provider = getOddsProvider()
+  const scores: GameScore[] = []
+  for (const sport of await getSportsAwaitingScores()) {
+    scores.push(...(await provider.fetchScores(sport)))
+  }
+
+  const finals = scores
+    .filter((s) => s.completed && s.homeScore != null && s.awayScore != null)
+    .map((s) => ({
+      external_game_id: s.id,
+      home_score: s.homeScore,
+      away_score: s.awayScore,
+      scores_updated_at: s.lastUpdate
+    }))
+
+  if (finals.length > 0) {
+    const { error } = await supabase.rpc('record_final_scores', { p_scores: finals })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  return gradePendingBets(null)
+}
@@ -0,0 +1,110 @@
+import { formatNflWeek, getNflWeek, getNflWeekKey } from './nflCalendar'
+import type { SeasonPhase } from './nflCalendar'
+import type { MarketType } from './oddsApi'
+
+export type SportKey =
+  | 'americanfootball_nfl'
+  | 'americanfootball_ncaaf'
+  | 'basketball_nba'
+  | 'icehockey_nhl'
+  | 'baseball_mlb'
+
+export type SportConfig = {
+  key: SportKey
+  label: string
+  // what books call the point spread: run line in baseball, puck line in hockey
+  spreadLabel: string
+  // only the NFL can end level; elsewhere overtime, shootouts and extra
+  // innings always produce a winner
+  allowsTies: boolean
+  // what the scoreboard counts, for bet explanations
+  scoreUnit: string
+  // month (0-11) the season opens, for seasons that span two calendar years
+  seasonStartMonth: number
+}
+
+export const NFL: SportKey = 'americanfootball_nfl'
+
+export const SPORTS: SportConfig[] = [
+  { key: 'americanfootball_nfl', label: 'NFL', spreadLabel: 'Spread', allowsTies: true, scoreUnit: 'points', seasonStartMonth: 7 },
+  { key: 'americanfootball_ncaaf', label: 'NCAAF', spreadLabel: 'Spread', allowsTies: false, scoreUnit: 'points', seasonStartMonth: 7 },
+  { key: 'basketball_nba', label: 'NBA', spreadLabel: 'Spread', allowsTies: false, scoreUnit: 'points', seasonStartMonth: 9 },
+  { key: 'icehockey_nhl', label: 'NHL', spreadLabel: 'Puck Line', allowsTies: false, scoreUnit: 'goals', seasonStartMonth: 9 },
+  { key: 'baseball_mlb', label: 'MLB', spreadLabel: 'Run Line', allowsTies: false, scoreUnit: 'runs', seasonStartMonth: 2 }
+]
+
+export function getSport(key: SportKey): SportConfig {
+  const sport = SPORTS.find((s) => s.key === key)
+  if (!sport) {
+    throw new Error(`Unknown sport ${key}`)
+  }
+  return sport
+}
+
+export function getMarketLabel(market: MarketType, sportKey: SportKey): string {
+  if (market === 'spreads') return getSport(sportKey).spreadLabel
+  return market === 'h2h' ? 'Moneyline' : 'Total'
+}
+
+// A final score the sport can't produce (a tie where there are no ties) means
+// the feed isn't really final yet, so it must not be graded.
+export function isValidFinalScore(sportKey: SportKey, homeScore: number, awayScore: number): boolean {
+  return homeScore !== awayScore || getSport(sportKey).allowsTies
+}
+
+export type GameCalendar = {
+  season: number
+  week: number
+  phase: SeasonPhase | null
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+// NFL games use the league calendar. Other sports are numbered in plain
+// weeks from the first of their opening month and carry no phase.
+export function getGameCalendar(sportKey: SportKey, kickoffAt: string | Date): GameCalendar {
+  if (sportKey === NFL) return getNflWeek(kickoffAt)
+
+  const kickoff = typeof kickoffAt === 'string' ? new Date(kickoffAt) : kickoffAt
+  const { seasonStartMonth } = getSport(sportKey)
+  const year = kickoff.getUTCFullYear()
+  const season = kickoff.getUTCMonth() < seasonStartMonth ? year - 1 : year
+  const seasonStart = Date.UTC(season, seasonStartMonth, 1)
+
+  return { season, week: Math.floor((kickoff.getTime() - seasonStart) / WEEK_MS) + 1, phase: null }
+}
+
+// NFL slates group by league week; the daily sports group by game day.
+export function groupBySlate<T>(
+  sportKey: SportKey,
+  items: T[],
+  getKickoff: (item: T) => string | null
+): { key: string; label: string; items: T[] }[] {
+  const groups = new Map<string, { key: string; label: string; items: T[] }>()
+
+  for (const item of items) {
+    const kickoffAt = getKickoff(item)
+    if (!kickoffAt) continue
+
+    const kickoff = new Date(kickoffAt)
+    let key: string
+    let label: string
+    if (sportKey === NFL) {
+      const week = getNflWeek(kickoff)
+      key = getNflWeekKey(week)
+      label = formatNflWeek(week)
+    } else {
+      key = `${kickoff.getFullYear()}-${String(kickoff.getMonth() + 1).padStart(2, '0')}-${String(kickoff.getDate()).padStart(2, '0')}`
+      label = kickoff.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' })
+    }
+
+    const group = groups.get(key)
+    if (group) {
+      group.items.push(item)
+    } else {
+      groups.set(key, { key, label, items: [item] })
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key))
+}
@@ -0,0 +1,287 @@
+import type { DevigMethod } from './fairOdds'
+import type { BetSide, MarketType } from './oddsApi'
+import type { SeasonPhase } from './nflCalendar'
+import type { SportKey } from './sports'
+
+export type UserRole = 'USER' | 'ADMIN'
+
+export type UnitType = 'FIXED' | 'PERCENT'
+
+export type UserRow = {
+  id: string
+  // null for a profile from before sign-in that no admin has linked yet
+  auth_user_id: string | null
+  username: string
+  display_name: string | null
+  role: UserRole
+  starting_balance: number
+  current_balance: number
+  unit_type: UnitType
+  unit_value: number
+  max_stake_pct: number
+  kelly_fraction: number | null
+  // set while the account is archived
+  archived_at: string | null
+}
+
+// When a league's members see each other's bets.
+export type FeedVisibility = 'IMMEDIATE' | 'KICKOFF'
+
+export type LeagueRow = {
+  id: string
+  name: string
+  invite_code: string
+  starting_balance: number
+  feed_visibility: FeedVisibility
+  created_by: string | null
+}
+
+// A user's bankroll in one league.
+export type LeagueMemberRow = {
+  league_id: string
+  user_id: string
+  starting_balance: number
+  current_balance: number
+  user?: Pick<UserRow, 'username' | 'display_name'> | null
+  league?: LeagueRow | null
+}
+
+export type TransactionType =
+  | 'INITIAL'
+  | 'BET_PLACED'
+  | 'BET_SETTLED'
+  | 'BET_CASHED_OUT'
+  | 'BET_CANCELLED'
+  | 'RECONCILIATION'
+  | 'ADJUSTMENT'
+  | 'BET_VOIDED'
+  | 'BET_REGRADED'
+
+export type TransactionRow = {
+  id: string
+  user_id: string
+  league_id: string | null
+  bet_id: string | null
+  type: TransactionType | string
+  amount: number
+  balance_after: number
+  // set on entries an admin made
+  reason: string | null
+  created_at: string
+  bet?: Pick<BetRow, 'team_name' | 'bet_type'> | null
+}
+
+// A bankroll whose balance doesn't match the sum of its ledger entries.
+export type ReconciliationRow = {
+  user_id: string
+  league_id: string | null
+  username: string
+  league_name: string | null
+  balance: number
+  ledger_total: number
+  drift: number
+}
+
+export type TransactionInsert = {
+  user_id: string
+  type: string
+  amount: number
+  balance_after: number
+  bet_id?: string | null
+  league_id?: string | null
+}
+
+export type GameInfo = {
+  sport: SportKey
+  home_team: string
+  away_team: string
+  kickoff_at: string
+  home_score: number | null
+  away_score: number | null
+  completed: boolean
+}
+
+export type GameRow = {
+  id: string
+  sport: SportKey
+  season: number
+  week: number
+  phase: SeasonPhase | null
+  home_team: string
+  away_team: string
+  kickoff_at: string
+  external_game_id: string | null
+  home_score: number | null
+  away_score: number | null
+  completed: boolean
+  scores_updated_at: string | null
+}
+
+export type BetType = 'STRAIGHT' | 'PARLAY'
+
+// Parlays keep their selections in parlay_legs, so the bet row itself has no
+// game, market or side.
+export type BetRow = {
+  id: string
+  user_id: string
+  league_id: string | null
+  bet_type: BetType
+  game_id: string | null
+  market: MarketType | null
+  side: BetSide | null
+  team_name: string
+  spread_line: number | null
+  total_line: number | null
+  odds_american: number
+  bookmaker: string | null
+  stake: number
+  opposing_odds_american: number | null
+  fair_odds_american: number | null
+  devig_method: DevigMethod | null
+  status: 'PENDING' | SettleResult | 'CASHED_OUT' | 'CANCELLED' | string
+  placed_at: string
+  settled_at: string | null
+  payout: number | null
+  profit: number | null
+  fair_profit: number | null
+  fair_payout: number | null
+  clv_points: number | null
+  clv_prob: number | null
+  game: GameInfo | null
+  legs?: ParlayLegRow[]
+}
+
+export type ParlayLegRow = {
+  id: string
+  bet_id: string
+  game_id: string
+  market: MarketType
+  side: BetSide
+  team_name: string
+  spread_line: number | null
+  total_line: number | null
+  odds_american: number
+  bookmaker: string | null
+  opposing_odds_american: number | null
+  fair_odds_american: number | null
+  devig_method: DevigMethod | null
+  status: 'PENDING' | SettleResult | string
+  settled_at: string | null
+  game: GameInfo | null
+}
+
+// Payload for the place_bet function; the owner comes from the session.
+export type BetInsert = {
+  bet_type: BetType
+  game_id: string | null
+  market: MarketType | null
+  side: BetSide | null
+  team_name: string
+  spread_line: number | null
+  total_line: number | null
+  odds_american: number
+  bookmaker: string | null
+  opposing_odds_american: number | null
+  fair_odds_american: number | null
+  devig_method: DevigMethod | null
+  stake: number
+}
+
+export type ParlayLegInsert = {
+  game_id: string
+  market: MarketType
+  side: BetSide
+  team_name: string
+  spread_line: number | null
+  total_line: number | null
+  odds_american: number
+  bookmaker: string | null
+  opposing_odds_american: number | null
+  fair_odds_american: number | null
+  devig_method: DevigMethod | null
+}
+
+export type OddsSnapshotRow = {
+  id: string
+  game_id: string
+  bookmaker: string
+  market: MarketType
+  side: BetSide
+  point: number | null
+  price: number
+  captured_at: string
+}
+
+export type AdminAction =
+  | 'SET_ROLE'
+  | 'LINK_USER'
+  | 'ARCHIVE_USER'
+  | 'RESTORE_USER'
+  | 'PURGE_USER'
+  | 'ADJUST_BALANCE'
+  | 'VOID_BET'
+  | 'GRADE_GAME'
+  | 'REGRADE_GAME'
+  | 'RECORD_SCORES'
+
+export type AdminAuditRow = {
+  id: string
+  admin_id: string | null
+  action: AdminAction | string
+  target_user_id: string | null
+  target_bet_id: string | null
+  target_game_id: string | null
+  reason: string | null
+  details: Record<string, unknown>
+  created_at: string
+  admin?: Pick<UserRow, 'username'> | null
+  target_user?: Pick<UserRow, 'username'> | null
+}
+
+// A comment in a game's thread, with its author, its receipt (one of the
+// author's bets on the game) and its reactions.
+export type GameCommentRow = {
+  id: string
+  game_id: string
+  user_id: string
+  body: string
+  bet_id: string | null
+  created_at: string
+  user?: Pick<UserRow, 'username' | 'display_name'> | null
+  bet?: Pick<
+    BetRow,
+    'bet_type' | 'market' | 'team_name' | 'spread_line' | 'total_line' | 'odds_american' | 'stake' | 'status'
+  > | null
+  reactions?: Pick<CommentReactionRow, 'user_id' | 'emoji'>[]
+}
+
+export type CommentReactionRow = {
+  comment_id: string
+  user_id: string
+  emoji: string
+  created_at: string
+}
+
+// A row of the user_clv view.
+export type UserClvRow = {
+  user_id: string
+  league_id: string | null
+  bets_scored: number
+  avg_clv_points: number | null
+  avg_clv_prob: number | null
+}
+
+// A row of the user_sport_stats view.
+export type UserSportStatsRow = {
+  user_id: string
+  league_id: string | null
+  sport: SportKey
+  bets_placed: number
+  bets_settled: number
+  profit: number
+  bets_scored: number
+  avg_clv_points: number | null
+  avg_clv_prob: number | null
+}
+
+export type SettleResult = 'WON' | 'LOST' | 'PUSH'
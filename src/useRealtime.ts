@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from './supabaseClient'
+
+export type RealtimeTable =
+  | 'users'
+  | 'bets'
+  | 'transactions'
+  | 'league_members'
+  | 'game_comments'
+  | 'comment_reactions'
+
+export type RealtimeStatus = 'connecting' | 'live' | 'reconnecting' | 'offline'
+
+// One settlement writes a bet, a ledger entry and a balance within
+// milliseconds, so changes are gathered briefly and delivered together.
+const BATCH_MS = 300
+const RETRY_BASE_MS = 1000
+const RETRY_MAX_MS = 30000
+
+// Subscribes to inserts, updates and deletes on the given tables and calls
+// onChange with the tables that changed. A dropped connection is retried
+// with backoff, or straight away when the browser comes back online; after
+// a reconnect every table is reported changed, since events were missed
+// while it was down.
+export function useRealtime(
+  tables: RealtimeTable[],
+  onChange: (changed: Set<RealtimeTable>) => void,
+  enabled: boolean = true
+): RealtimeStatus {
+  const [status, setStatus] = useState<RealtimeStatus>('connecting')
+  const onChangeRef = useRef(onChange)
+  const tablesKey = [...tables].sort().join(',')
+
+  // the latest callback sees the latest state without resubscribing
+  useEffect(() => {
+    onChangeRef.current = onChange
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const subscribed = tablesKey.split(',') as RealtimeTable[]
+    let channel: RealtimeChannel | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    let batchTimer: ReturnType<typeof setTimeout> | null = null
+    let attempts = 0
+    let connectedBefore = false
+    let stopped = false
+    const pending = new Set<RealtimeTable>()
+
+    const flush = () => {
+      batchTimer = null
+      const changed = new Set(pending)
+      pending.clear()
+      onChangeRef.current(changed)
+    }
+
+    const queue = (changed: RealtimeTable[]) => {
+      changed.forEach((table) => pending.add(table))
+      if (!batchTimer) batchTimer = setTimeout(flush, BATCH_MS)
+    }
+
+    const connect = () => {
+      retryTimer = null
+      const current = supabase.channel(`realtime:${tablesKey}:${Date.now()}`)
+      channel = current
+      for (const table of subscribed) {
+        current.on('postgres_changes', { event: '*', schema: 'public', table }, () => queue([table]))
+      }
+
+      current.subscribe((state) => {
+        // a channel being torn down reports CLOSED after it's been replaced
+        if (stopped || channel !== current) return
+
+        if (state === 'SUBSCRIBED') {
+          if (connectedBefore) queue(subscribed)
+          connectedBefore = true
+          attempts = 0
+          setStatus('live')
+        } else if (state === 'CHANNEL_ERROR' || state === 'TIMED_OUT' || state === 'CLOSED') {
+          scheduleReconnect()
+        }
+      })
+    }
+
+    const scheduleReconnect = (delay: number = Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS)) => {
+      if (stopped || retryTimer) return
+      setStatus(navigator.onLine ? 'reconnecting' : 'offline')
+      attempts++
+      if (channel) {
+        const stale = channel
+        channel = null
+        supabase.removeChannel(stale)
+      }
+      retryTimer = setTimeout(connect, delay)
+    }
+
+    const handleOnline = () => {
+      if (retryTimer) clearTimeout(retryTimer)
+      retryTimer = null
+      scheduleReconnect(0)
+    }
+
+    const handleOffline = () => setStatus('offline')
+
+    connect()
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    return () => {
+      stopped = true
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      if (retryTimer) clearTimeout(retryTimer)
+      if (batchTimer) clearTimeout(batchTimer)
+      if (channel) supabase.removeChannel(channel)
+    }
+  }, [tablesKey, enabled])
+
+  return enabled ? status : 'offline'
+}